@@ -41,6 +41,7 @@ describe('ConfigLoader', () => {
         // Just checking basic property existence
         expect(config.sources.length).toBeGreaterThan(0);
         expect(config.sentinel).toBeDefined();
+        expect(loader.getOrigin()).toBe('local');
     });
 
     it('should parse JSON string from RSS_FEEDS env var', async () => {
@@ -72,6 +73,8 @@ describe('ConfigLoader', () => {
 
         expect(config.sources).toHaveLength(1);
         expect(config.sources[0].id).toBe('test-source');
+        // Operator-supplied, so custom adapters may be loaded from it
+        expect(loader.getOrigin()).toBe('env');
     });
 
     it('should fallback to defaults if JSON in RSS_FEEDS is invalid', async () => {
@@ -5,6 +5,14 @@ import { logger } from '../utils/logger.js';
 
 const require = createRequire(import.meta.url);
 
+/**
+ * Where the current configuration came from
+ * - local: bundled defaults file
+ * - env: inline JSON in RSS_FEEDS
+ * - remote: URL in RSS_FEEDS
+ */
+export type ConfigOrigin = 'local' | 'env' | 'remote';
+
 /**
  * ConfigLoader: Dynamic configuration management with hot-reload
  * 
@@ -20,6 +28,7 @@ export class ConfigLoader extends EventEmitter {
     private configUrl: string | null;
     private pollTimer: NodeJS.Timeout | null = null;
     private lastConfigHash: string = '';
+    private origin: ConfigOrigin = 'local';
 
     constructor() {
         super();
@@ -34,6 +43,13 @@ export class ConfigLoader extends EventEmitter {
         return this.config;
     }
 
+    /**
+     * Get where the current configuration was loaded from
+     */
+    public getOrigin(): ConfigOrigin {
+        return this.origin;
+    }
+
     /**
    * Initialize the config loader and start polling
    */
@@ -51,6 +67,7 @@ export class ConfigLoader extends EventEmitter {
                 const rawData = JSON.parse(this.configUrl);
                 const validated = AppConfigSchema.parse(rawData);
                 this.config = validated;
+                this.origin = 'env';
                 logger.info(`Loaded configuration from environment JSON: ${validated.sources.length} sources`);
             } catch (error) {
                 logger.error(`Failed to parse JSON from RSS_FEEDS var: ${error}`);
@@ -145,6 +162,7 @@ export class ConfigLoader extends EventEmitter {
 
             const previousConfig = this.config;
             this.config = validatedConfig;
+            this.origin = 'remote';
             this.lastConfigHash = configHash;
 
             logger.info(`Configuration loaded successfully: ${validatedConfig.sources.length} sources`);
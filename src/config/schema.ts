@@ -1,5 +1,259 @@
 import { z } from 'zod';
 
+/**
+ * Schema for per-source authentication
+ *
+ * Secrets are never stored in config; each field names the environment
+ * variable to read the secret from at request time.
+ */
+export const SourceAuthSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('bearer'),
+        /** Env var holding the bearer token */
+        tokenEnv: z.string().min(1),
+    }),
+    z.object({
+        type: z.literal('basic'),
+        /** Username (not secret) */
+        username: z.string().min(1),
+        /** Env var holding the password */
+        passwordEnv: z.string().min(1),
+    }),
+    z.object({
+        type: z.literal('apiKey'),
+        /** Env var holding the API key */
+        keyEnv: z.string().min(1),
+        /** Where to send the key */
+        in: z.enum(['header', 'query']).default('header'),
+        /** Header or query parameter name */
+        name: z.string().min(1).default('X-API-Key'),
+    }),
+]);
+
+export type SourceAuth = z.infer<typeof SourceAuthSchema>;
+
+/**
+ * Schema for fetch retry policy
+ */
+export const RetryPolicySchema = z.object({
+    /** Total attempts including the first request */
+    maxAttempts: z.number().int().min(1).max(10).default(3),
+    /** Delay before the first retry (ms), doubled each attempt */
+    baseDelayMs: z.number().int().min(0).default(500),
+    /** Upper bound for a single delay (ms) */
+    maxDelayMs: z.number().int().min(0).default(30000),
+    /** Fraction of each delay that is randomized (0 = none, 1 = full jitter) */
+    jitter: z.number().min(0).max(1).default(0.5),
+    /** HTTP status codes worth retrying */
+    retryOnStatus: z.array(z.number().int()).default([408, 425, 429, 500, 502, 503, 504]),
+    /** Retry when the request times out */
+    retryOnTimeout: z.boolean().default(true),
+    /** Retry on connection-level errors (DNS, reset, refused) */
+    retryOnNetworkError: z.boolean().default(true),
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+/**
+ * Schema for a per-host token bucket
+ */
+export const HostRateLimitSchema = z.object({
+    /** Sustained requests per second to one host */
+    requestsPerSecond: z.number().positive().default(2),
+    /** Requests allowed back-to-back before throttling kicks in */
+    burst: z.number().int().min(1).default(4),
+});
+
+export type HostRateLimit = z.infer<typeof HostRateLimitSchema>;
+
+/**
+ * Schema for outgoing fetch limits
+ */
+export const FetchLimitsSchema = z.object({
+    /** Maximum fetches in flight across all hosts */
+    maxConcurrentFetches: z.number().int().min(1).default(8),
+    /** Default token bucket applied to every host */
+    perHost: HostRateLimitSchema.default({}),
+    /** Token bucket overrides keyed by hostname */
+    hosts: z.record(HostRateLimitSchema).default({}),
+});
+
+export type FetchLimits = z.infer<typeof FetchLimitsSchema>;
+
+/**
+ * Schema for robots.txt compliance (applies to html sources)
+ */
+export const RobotsConfigSchema = z.object({
+    /** Check robots.txt before scraping html sources */
+    enabled: z.boolean().default(true),
+    /** Product token matched against User-agent groups */
+    userAgent: z.string().min(1).default('OmniWire-MCP'),
+    /** How long a fetched robots.txt is trusted (ms) */
+    cacheTtlMs: z.number().int().min(60000).default(86400000),
+    /** Honor Crawl-delay between requests to the same host */
+    respectCrawlDelay: z.boolean().default(true),
+});
+
+export type RobotsConfig = z.infer<typeof RobotsConfigSchema>;
+
+/**
+ * Schema for XML parse limits (RSS, Atom, RDF and sitemap bodies)
+ */
+export const XmlLimitsSchema = z.object({
+    /** Largest document accepted, in bytes, counting internal entity expansion */
+    maxBytes: z.number().int().min(1024).default(10 * 1024 * 1024),
+    /** Deepest element nesting accepted */
+    maxDepth: z.number().int().min(8).default(100),
+    /** Most elements accepted in one document */
+    maxElements: z.number().int().min(100).default(1000000),
+    /** Most entities a DOCTYPE may declare */
+    maxEntities: z.number().int().min(0).default(64),
+    /** Time allowed for one parse (ms); without useWorker a slow parse is only rejected after it finishes */
+    timeoutMs: z.number().int().min(100).default(5000),
+    /** Parse in a worker thread so a slow document cannot block the server */
+    useWorker: z.boolean().default(false),
+});
+
+export type XmlLimits = z.infer<typeof XmlLimitsSchema>;
+
+/**
+ * Settings shared by every pagination strategy
+ */
+const PaginationBaseSchema = z.object({
+    /** Maximum pages fetched per poll, including the first */
+    maxPages: z.number().int().min(1).max(50).default(5),
+    /** Stop as soon as a page contains an item that is already stored */
+    stopAtKnown: z.boolean().default(true),
+});
+
+/**
+ * Schema for per-source pagination
+ *
+ * - link: follow rel="next" / rel="prev-archive" links (RFC 5005) or a Link header
+ * - cursor: read a cursor from the JSON body and send it as a query parameter
+ * - nextUrl: read the next page URL from the JSON body
+ * - page: increment a page-number query parameter
+ * - offset: advance an offset query parameter by the items seen so far
+ */
+export const PaginationSchema = z.discriminatedUnion('type', [
+    PaginationBaseSchema.extend({
+        type: z.literal('link'),
+    }),
+    PaginationBaseSchema.extend({
+        type: z.literal('cursor'),
+        /** Dotted path to the next cursor in the response (e.g. "meta.next_cursor") */
+        cursorPath: z.string().min(1),
+        /** Query parameter the cursor is sent in */
+        cursorParam: z.string().min(1).default('cursor'),
+    }),
+    PaginationBaseSchema.extend({
+        type: z.literal('nextUrl'),
+        /** Dotted path to the next page URL in the response (e.g. "links.next") */
+        nextUrlPath: z.string().min(1),
+    }),
+    PaginationBaseSchema.extend({
+        type: z.literal('page'),
+        /** Page-number query parameter */
+        param: z.string().min(1).default('page'),
+        /** Number of the first page */
+        start: z.number().int().min(0).default(1),
+    }),
+    PaginationBaseSchema.extend({
+        type: z.literal('offset'),
+        /** Offset query parameter */
+        param: z.string().min(1).default('offset'),
+    }),
+]);
+
+export type Pagination = z.infer<typeof PaginationSchema>;
+
+/**
+ * Schema for following sitemap index files
+ */
+export const SitemapOptionsSchema = z.object({
+    /** Index levels to follow below the source URL (1 = only its direct children) */
+    maxDepth: z.number().int().min(0).max(5).default(2),
+    /** Maximum number of child sitemaps fetched per poll, newest first */
+    maxSitemaps: z.number().int().min(1).max(100).default(10),
+});
+
+export type SitemapOptions = z.infer<typeof SitemapOptionsSchema>;
+
+/**
+ * Schema for one mapped JSON field: a path, or a path with transforms
+ */
+export const JsonFieldMappingSchema = z.union([
+    z.string().min(1),
+    z.object({
+        /** JSONPath or dotted path, relative to the item */
+        path: z.string().min(1),
+        /** Text prepended to the value (e.g. a base URL); skipped for absolute URLs */
+        prefix: z.string().optional(),
+        /** Text appended to the value */
+        suffix: z.string().optional(),
+        /** Strip HTML tags from the value */
+        stripHtml: z.boolean().optional(),
+        /** Value used when the path matches nothing */
+        default: z.string().optional(),
+    }),
+]);
+
+export type JsonFieldMapping = z.infer<typeof JsonFieldMappingSchema>;
+
+/**
+ * Schema for declarative JSON-to-NewsItem mapping
+ *
+ * Fields left out fall back to the adapter's built-in key guessing.
+ */
+export const JsonMappingSchema = z.object({
+    /** Path to the items array (e.g. "$.payload.stories") */
+    items: z.string().min(1).optional(),
+    /** Per-field paths, relative to each item */
+    fields: z.object({
+        id: JsonFieldMappingSchema.optional(),
+        title: JsonFieldMappingSchema.optional(),
+        link: JsonFieldMappingSchema.optional(),
+        description: JsonFieldMappingSchema.optional(),
+        content: JsonFieldMappingSchema.optional(),
+        author: JsonFieldMappingSchema.optional(),
+        publishedAt: JsonFieldMappingSchema.optional(),
+        categories: JsonFieldMappingSchema.optional(),
+        imageUrl: JsonFieldMappingSchema.optional(),
+    }).default({}),
+    /** Date format hint: unix, unix_ms, iso, or a pattern like "DD/MM/YYYY HH:mm"; overrides the source dateFormat */
+    dateFormat: z.string().optional(),
+    /** Base URL for resolving relative link and imageUrl values (default: the document URL) */
+    baseUrl: z.string().url().optional(),
+});
+
+export type JsonMapping = z.infer<typeof JsonMappingSchema>;
+
+/**
+ * Schema for per-field CSS selectors on HTML sources
+ *
+ * Each field is a selector relative to the item element, optionally
+ * followed by `@attribute` (e.g. "a.headline@href", "time@datetime").
+ * A bare "@attribute" reads from the item element itself. Fields left out
+ * fall back to the adapter's heuristics.
+ */
+export const HtmlSelectorsSchema = z.object({
+    fields: z.object({
+        id: z.string().min(1).optional(),
+        title: z.string().min(1).optional(),
+        link: z.string().min(1).optional(),
+        description: z.string().min(1).optional(),
+        content: z.string().min(1).optional(),
+        author: z.string().min(1).optional(),
+        publishedAt: z.string().min(1).optional(),
+        categories: z.string().min(1).optional(),
+        imageUrl: z.string().min(1).optional(),
+    }).default({}),
+    /** Date format hint: unix, unix_ms, iso, or a pattern like "DD.MM.YYYY HH:mm"; overrides the source dateFormat */
+    dateFormat: z.string().optional(),
+});
+
+export type HtmlSelectors = z.infer<typeof HtmlSelectorsSchema>;
+
 /**
  * Schema for individual source/feed configuration
  */
@@ -10,10 +264,31 @@ export const SourceConfigSchema = z.object({
     name: z.string().min(1),
     /** URL to fetch content from */
     url: z.string().url(),
-    /** Content type hint (auto = sniff) */
-    type: z.enum(['auto', 'rss', 'atom', 'json', 'html']).default('auto'),
+    /** Content type hint (auto = sniff), or the type name of a custom adapter */
+    type: z.union([
+        z.enum(['auto', 'rss', 'atom', 'json', 'jsonfeed', 'html', 'sitemap']),
+        z.string().regex(/^[a-z][a-z0-9_-]*$/i, 'Custom adapter types must be alphanumeric identifiers'),
+    ]).default('auto'),
+    /** Optional authentication */
+    auth: SourceAuthSchema.optional(),
+    /** Extra request headers; values may reference env vars as ${VAR} */
+    headers: z.record(z.string()).optional(),
+    /** Optional field mapping for JSON sources */
+    mapping: JsonMappingSchema.optional(),
     /** Optional CSS selector for HTML parsing */
     selector: z.string().optional(),
+    /** Optional per-field CSS selectors for HTML parsing */
+    selectors: HtmlSelectorsSchema.optional(),
+    /** Date format hint for this source's dates: unix, unix_ms, iso, or a pattern like "DD.MM.YYYY HH:mm" (mapping and selectors may override it) */
+    dateFormat: z.string().optional(),
+    /** Optional pagination for multi-page feeds and APIs */
+    pagination: PaginationSchema.optional(),
+    /** Limits for following sitemap index files */
+    sitemap: SitemapOptionsSchema.optional(),
+    /** Per-source retry overrides (merged over the global policy) */
+    retry: RetryPolicySchema.partial().optional(),
+    /** Per-source response size cap in bytes (overrides global) */
+    maxResponseBytes: z.number().int().min(1024).optional(),
     /** Category/tag for grouping */
     category: z.string().optional(),
     /** Priority (higher = more important) */
@@ -38,6 +313,18 @@ export const AppConfigSchema = z.object({
     requestTimeoutMs: z.number().int().min(1000).default(10000),
     /** Maximum items to keep per source */
     maxItemsPerSource: z.number().int().min(1).default(50),
+    /** Maximum response body size in bytes */
+    maxResponseBytes: z.number().int().min(1024).default(5 * 1024 * 1024),
+    /** Global concurrency cap and per-host rate limits */
+    fetchLimits: FetchLimitsSchema.default({}),
+    /** Retry policy applied before reporting a failure to Sentinel */
+    retry: RetryPolicySchema.default({}),
+    /** robots.txt compliance for scraping sources */
+    robots: RobotsConfigSchema.default({}),
+    /** Limits for parsing untrusted XML feeds */
+    xmlLimits: XmlLimitsSchema.default({}),
+    /** Custom content adapter module file paths, loaded once at startup (ignored in remote config) */
+    adapters: z.array(z.string().min(1)).default([]),
     /** Sentinel configuration */
     sentinel: z.object({
         /** Number of failures before circuit opens */
@@ -60,6 +347,12 @@ export const DEFAULT_CONFIG: AppConfig = {
     contentPollIntervalMs: 300000,
     requestTimeoutMs: 10000,
     maxItemsPerSource: 50,
+    maxResponseBytes: 5 * 1024 * 1024,
+    fetchLimits: FetchLimitsSchema.parse({}),
+    retry: RetryPolicySchema.parse({}),
+    robots: RobotsConfigSchema.parse({}),
+    xmlLimits: XmlLimitsSchema.parse({}),
+    adapters: [],
     sentinel: {
         failureThreshold: 3,
         recoveryTimeoutMs: 60000,
@@ -2,6 +2,14 @@ import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mc
 import { SentinelService } from '../services/sentinel/index.js';
 import { UniversalParser } from '../services/parser/index.js';
 import { ConfigLoader } from '../config/index.js';
+import { ItemStore } from '../services/store/index.js';
+import { ContentPoller } from '../services/poller/index.js';
+import { RobotsService } from '../services/robots/index.js';
+import { FeedDiscoveryService } from '../services/discovery/index.js';
+import { ArticleReader } from '../services/article/index.js';
+import { SourceTester } from '../services/diagnostics/index.js';
+import { StoryClusterer } from '../services/clustering/index.js';
+import { SearchIndex } from '../services/search/index.js';
 
 /**
  * Register MCP resources
@@ -12,6 +20,14 @@ export function registerResources(
         sentinel: SentinelService;
         parser: UniversalParser;
         config: ConfigLoader;
+        store: ItemStore;
+        poller: ContentPoller;
+        robots: RobotsService;
+        discovery: FeedDiscoveryService;
+        articles: ArticleReader;
+        tester: SourceTester;
+        clusterer: StoryClusterer;
+        search: SearchIndex;
     }
 ) {
     // 1. health://sources - Get comprehensive health status
@@ -36,60 +52,26 @@ export function registerResources(
         }
     );
 
-    // 2. news://all - Aggregate latest news from all healthy sources
+    // 2. news://all - Aggregate latest stored news from all sources
     server.resource(
         'news-all',
         'news://all',
         {
-            description: 'Latest news items combined from all healthy sources',
+            description: 'Latest news items combined from all polled sources',
             mimeType: 'application/json',
         },
         async () => {
             const config = services.config.getConfig();
-            const healthySources = config.sources.filter(s =>
-                s.enabled && services.sentinel.canRequest(s.id)
-            );
+            const enabledSources = config.sources.filter(s => s.enabled);
+            const polledSources = enabledSources.filter(s => services.store.has(s.id));
 
-            const allItems = [];
+            const allItems = services.store.getAllItems(polledSources.map(s => s.id));
             const stats = {
-                attempted: healthySources.length,
-                successful: 0,
-                failed: 0,
+                enabled: enabledSources.length,
+                polled: polledSources.length,
+                healthy: enabledSources.filter(s => services.sentinel.canRequest(s.id)).length,
             };
-
-            // Parallel fetch from healthy sources
-            const results = await Promise.allSettled(
-                healthySources.map(async (source) => {
-                    const { result, responseTimeMs } = await services.parser.fetchAndParse(
-                        source,
-                        config.requestTimeoutMs
-                    );
-
-                    if (result.success) {
-                        services.sentinel.recordSuccess(source.id, responseTimeMs);
-                        return result.items;
-                    } else {
-                        services.sentinel.recordFailure(source.id, result.error || 'Unknown parsing error');
-                        throw new Error(result.error);
-                    }
-                })
-            );
-
-            for (const result of results) {
-                if (result.status === 'fulfilled') {
-                    allItems.push(...result.value);
-                    stats.successful++;
-                } else {
-                    stats.failed++;
-                }
-            }
-
-            // Sort by date (newest first)
-            allItems.sort((a, b) => {
-                const dateA = a.publishedAt ? new Date(a.publishedAt).getTime() : 0;
-                const dateB = b.publishedAt ? new Date(b.publishedAt).getTime() : 0;
-                return dateB - dateA;
-            });
+            const lastPoll = services.poller.getLastSummary();
 
             return {
                 contents: [
@@ -100,6 +82,7 @@ export function registerResources(
                             meta: {
                                 totalCount: allItems.length,
                                 sources: stats,
+                                lastPollAt: lastPoll?.startedAt.toISOString() ?? null,
                                 generatedAt: new Date().toISOString(),
                             },
                             items: allItems,
@@ -130,23 +113,23 @@ export function registerResources(
                 throw new Error(`Source not found: ${sourceId}`);
             }
 
-            const { result, responseTimeMs } = await services.parser.fetchAndParse(
-                source,
-                config.requestTimeoutMs
-            );
-
-            if (result.success) {
-                services.sentinel.recordSuccess(sourceId, responseTimeMs);
-            } else {
-                services.sentinel.recordFailure(sourceId, result.error || 'Parse error');
-            }
+            const snapshot = services.store.getSnapshot(sourceId);
 
             return {
                 contents: [
                     {
                         uri: uri.href,
                         mimeType: 'application/json',
-                        text: JSON.stringify(result, null, 2),
+                        text: JSON.stringify({
+                            meta: {
+                                sourceId,
+                                sourceName: source.name,
+                                totalCount: snapshot?.items.length ?? 0,
+                                updatedAt: snapshot?.updatedAt.toISOString() ?? null,
+                                health: services.sentinel.getSourceHealth(sourceId)?.status ?? null,
+                            },
+                            items: snapshot?.items ?? [],
+                        }, null, 2),
                     },
                 ],
             };
@@ -1,8 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ConfigLoader } from '../config/index.js';
+import { SourceConfig } from '../config/schema.js';
 import { SentinelService } from '../services/sentinel/index.js';
-import { UniversalParser } from '../services/parser/index.js';
+import { FetchLimiter, SafeXmlParser, UniversalParser } from '../services/parser/index.js';
+import { ItemStore } from '../services/store/index.js';
+import { ContentPoller } from '../services/poller/index.js';
+import { RobotsService } from '../services/robots/index.js';
+import { FeedDiscoveryService } from '../services/discovery/index.js';
+import { ArticleReader } from '../services/article/index.js';
+import { SourceTester } from '../services/diagnostics/index.js';
+import { StoryClusterer } from '../services/clustering/index.js';
+import { SearchIndex } from '../services/search/index.js';
 import { createLogger } from '../utils/logger.js';
 import { registerResources } from './resources.js';
 import { registerTools } from './tools.js';
@@ -17,6 +26,11 @@ const logger = createLogger('OmniWireServer');
  * - ConfigLoader (Configuration)
  * - SentinelService (Health & Reliability)
  * - UniversalParser (Data Acquisition)
+ * - ContentPoller + ItemStore (Background Fetching & Caching)
+ * - ArticleReader (Full-Text Extraction)
+ * - SourceTester (Source Dry Runs)
+ * - StoryClusterer (Cross-Source Story Grouping)
+ * - SearchIndex (Full-Text Search)
  * - MCP Interface (Resources, Tools, Prompts)
  */
 export class OmniWireServer {
@@ -24,6 +38,16 @@ export class OmniWireServer {
     private configLoader: ConfigLoader;
     private sentinel: SentinelService;
     private parser: UniversalParser;
+    private limiter: FetchLimiter;
+    private xml: SafeXmlParser;
+    private store: ItemStore;
+    private poller: ContentPoller;
+    private robots: RobotsService;
+    private discovery: FeedDiscoveryService;
+    private articles: ArticleReader;
+    private tester: SourceTester;
+    private clusterer: StoryClusterer;
+    private search: SearchIndex;
 
     constructor() {
         // Initialize Core Services
@@ -31,7 +55,17 @@ export class OmniWireServer {
         const config = this.configLoader.getConfig();
 
         this.sentinel = new SentinelService(config.sentinel);
-        this.parser = new UniversalParser();
+        this.limiter = new FetchLimiter(config.fetchLimits);
+        this.xml = new SafeXmlParser(config.xmlLimits);
+        this.parser = new UniversalParser(this.limiter, this.xml);
+        this.store = new ItemStore(config.maxItemsPerSource);
+        this.robots = new RobotsService(config.robots);
+        this.poller = new ContentPoller(this.parser, this.sentinel, this.store, this.configLoader, this.robots);
+        this.discovery = new FeedDiscoveryService(this.parser);
+        this.articles = new ArticleReader(this.parser, this.sentinel, this.store, this.robots);
+        this.tester = new SourceTester(this.parser, this.robots);
+        this.clusterer = new StoryClusterer();
+        this.search = new SearchIndex(this.store);
 
         // Initialize MCP Server
         this.server = new McpServer({
@@ -52,6 +86,14 @@ export class OmniWireServer {
             sentinel: this.sentinel,
             parser: this.parser,
             config: this.configLoader,
+            store: this.store,
+            poller: this.poller,
+            robots: this.robots,
+            discovery: this.discovery,
+            articles: this.articles,
+            tester: this.tester,
+            clusterer: this.clusterer,
+            search: this.search,
         };
 
         registerResources(this.server, services);
@@ -77,6 +119,20 @@ export class OmniWireServer {
             // Remove old sources
             removedSources.forEach((id: string) => {
                 this.sentinel.unregisterSource(id);
+                this.store.remove(id);
+                this.parser.clearCache(id);
+            });
+
+            // Apply new polling settings and fetch new sources right away
+            this.store.setMaxItemsPerSource(current.maxItemsPerSource);
+            this.limiter.configure(current.fetchLimits);
+            this.xml.configure(current.xmlLimits);
+            this.robots.configure(current.robots);
+            this.poller.reschedule();
+            current.sources.forEach((source: SourceConfig) => {
+                if (source.enabled && addedSources.includes(source.id)) {
+                    void this.poller.pollSource(source);
+                }
             });
         });
 
@@ -102,15 +158,30 @@ export class OmniWireServer {
             // 1. Initialize Config (fetch remote or use default)
             await this.configLoader.initialize();
 
-            // 2. Register initial sources with Sentinel
+            // 2. Load custom content adapters before anything is parsed.
+            // Modules run in-process, so a remote config may not name them.
             const config = this.configLoader.getConfig();
+            if (this.configLoader.getOrigin() !== 'remote') {
+                await this.parser.loadAdapterModules(config.adapters);
+            } else if (config.adapters.length > 0) {
+                logger.warn(`Ignoring ${config.adapters.length} adapter module(s): adapters are not loaded from a remote configuration URL`);
+            }
+
+            // 3. Register initial sources with Sentinel
             config.sources.forEach(source => {
                 if (source.enabled) {
                     this.sentinel.registerSource(source);
                 }
             });
 
-            // 3. Start Transport
+            // 4. Start background content polling
+            this.store.setMaxItemsPerSource(config.maxItemsPerSource);
+            this.limiter.configure(config.fetchLimits);
+            this.xml.configure(config.xmlLimits);
+            this.robots.configure(config.robots);
+            this.poller.start();
+
+            // 5. Start Transport
             const transport = new StdioServerTransport();
             await this.server.connect(transport);
 
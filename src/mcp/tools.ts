@@ -1,8 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { SentinelService } from '../services/sentinel/index.js';
-import { UniversalParser } from '../services/parser/index.js';
+import { ContentFormatSchema, MediaTypeSchema, UniversalParser, withContentFormat } from '../services/parser/index.js';
 import { ConfigLoader } from '../config/index.js';
+import { ItemStore } from '../services/store/index.js';
+import { ContentPoller } from '../services/poller/index.js';
+import { RobotsService } from '../services/robots/index.js';
+import { FeedDiscoveryService } from '../services/discovery/index.js';
+import { ArticleReader } from '../services/article/index.js';
+import { SourceTester } from '../services/diagnostics/index.js';
+import { StoryClusterer } from '../services/clustering/index.js';
+import { SearchIndex } from '../services/search/index.js';
+import { SourceConfigSchema } from '../config/schema.js';
 
 /**
  * Register MCP tools
@@ -13,17 +22,29 @@ export function registerTools(
         sentinel: SentinelService;
         parser: UniversalParser;
         config: ConfigLoader;
+        store: ItemStore;
+        poller: ContentPoller;
+        robots: RobotsService;
+        discovery: FeedDiscoveryService;
+        articles: ArticleReader;
+        tester: SourceTester;
+        clusterer: StoryClusterer;
+        search: SearchIndex;
     }
 ) {
     // 1. fetch-news - Smart news fetching with filtering
     server.tool(
         'fetch-news',
         {
-            filter: z.string().optional().describe('Keyword to filter titles/descriptions by'),
+            filter: z.string().optional().describe('Keyword to filter titles/descriptions by (see search-news for ranked search)'),
             sourceId: z.string().optional().describe('Specific source ID to fetch from'),
             limit: z.number().min(1).max(100).default(10).describe('Max items to return'),
+            mediaType: MediaTypeSchema.optional().describe('Only items with an enclosure of this kind (e.g. audio for podcasts)'),
+            format: ContentFormatSchema.default('text').describe('Form of description/content: sanitized html, plain text or markdown'),
+            mode: z.enum(['items', 'dedupe', 'cluster']).default('items')
+                .describe('items: every item; dedupe: one item per story; cluster: stories with the sources covering them, earliest first'),
         },
-        async ({ filter, sourceId, limit }) => {
+        async ({ filter, sourceId, limit, mediaType, format, mode }) => {
             const config = services.config.getConfig();
             let targetSources = config.sources.filter(s => s.enabled);
 
@@ -38,38 +59,18 @@ export function registerTools(
                 }
             }
 
-            // Filter out unhealthy sources (Sentinel protection)
-            const healthySources = targetSources.filter(s => services.sentinel.canRequest(s.id));
+            // Read from the background-polled store
+            const polledSources = targetSources.filter(s => services.store.has(s.id));
 
-            if (healthySources.length === 0) {
+            if (polledSources.length === 0) {
                 return {
-                    content: [{ type: 'text', text: 'No healthy sources available to fulfill request.' }],
+                    content: [{ type: 'text', text: 'No items available yet. Sources are still being polled, try again shortly.' }],
                     isError: true,
                 };
             }
 
-            // Fetch in parallel
-            const results = await Promise.allSettled(
-                healthySources.map(async (source) => {
-                    const { result, responseTimeMs } = await services.parser.fetchAndParse(
-                        source,
-                        config.requestTimeoutMs
-                    );
-
-                    if (result.success) {
-                        services.sentinel.recordSuccess(source.id, responseTimeMs);
-                        return result.items;
-                    } else {
-                        services.sentinel.recordFailure(source.id, result.error || 'Unknown error');
-                        return [];
-                    }
-                })
-            );
-
-            // Aggregate
-            let allItems = results
-                .filter((r): r is PromiseFulfilledResult<any[]> => r.status === 'fulfilled')
-                .flatMap(r => r.value);
+            // Aggregate (already sorted newest first)
+            let allItems = services.store.getAllItems(polledSources.map(s => s.id));
 
             // Apply text filter
             if (filter) {
@@ -81,15 +82,30 @@ export function registerTools(
                 );
             }
 
-            // Sort by date (newest first)
-            allItems.sort((a, b) => {
-                const dateA = a.publishedAt ? new Date(a.publishedAt).getTime() : 0;
-                const dateB = b.publishedAt ? new Date(b.publishedAt).getTime() : 0;
-                return dateB - dateA;
-            });
+            // Apply media filter
+            if (mediaType) {
+                allItems = allItems.filter(item => item.enclosures?.some(e => e.medium === mediaType));
+            }
+
+            // Group coverage of the same story across sources
+            if (mode === 'cluster') {
+                const clusters = services.clusterer.cluster(allItems).slice(0, limit).map(cluster => ({
+                    id: cluster.id,
+                    size: cluster.items.length,
+                    firstPublishedAt: cluster.firstPublishedAt,
+                    representative: withContentFormat(cluster.representative, format),
+                    sources: cluster.sources,
+                }));
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(clusters, null, 2) }]
+                };
+            }
+            if (mode === 'dedupe') {
+                allItems = services.clusterer.dedupe(allItems);
+            }
 
             // Limit
-            const slicedItems = allItems.slice(0, limit);
+            const slicedItems = allItems.slice(0, limit).map(item => withContentFormat(item, format));
 
             return {
                 content: [
@@ -168,4 +184,140 @@ export function registerTools(
             }
         }
     );
+
+    // 5. discover-feeds - Find feeds advertised by a website
+    server.tool(
+        'discover-feeds',
+        {
+            url: z.string().url().describe('Website URL to inspect for RSS, Atom and JSON feeds'),
+        },
+        async ({ url }) => {
+            const config = services.config.getConfig();
+            const result = await services.discovery.discover(url, config.requestTimeoutMs, {
+                maxResponseBytes: config.maxResponseBytes,
+                retry: config.retry,
+            });
+
+            if (result.feeds.length === 0) {
+                return {
+                    content: [{ type: 'text', text: `No feeds found on ${result.site} (${result.checked} candidates checked).` }],
+                    isError: true,
+                };
+            }
+
+            return {
+                content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+            };
+        }
+    );
+
+    // 6. read-article - Full-text extraction for an item or URL
+    server.tool(
+        'read-article',
+        {
+            id: z.string().optional().describe('Item ID from fetch-news'),
+            url: z.string().url().optional().describe('Article URL (used when no ID is given)'),
+            format: z.enum(['markdown', 'text']).default('markdown').describe('Output format for the article body'),
+        },
+        async ({ id, url, format }) => {
+            if (!id && !url) {
+                return {
+                    content: [{ type: 'text', text: 'Provide either an item ID or a URL.' }],
+                    isError: true,
+                };
+            }
+
+            const config = services.config.getConfig();
+            try {
+                const article = await services.articles.read(
+                    { id, url },
+                    format,
+                    config.sources,
+                    config.requestTimeoutMs,
+                    { maxResponseBytes: config.maxResponseBytes, retry: config.retry }
+                );
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(article, null, 2) }]
+                };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    content: [{ type: 'text', text: `Could not read article: ${message}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
+    // 7. test-source - Dry run of a source configuration
+    server.tool(
+        'test-source',
+        {
+            // No auth or headers: they read server env vars, which a client must not pick
+            source: SourceConfigSchema.omit({ auth: true, headers: true }).partial({ id: true, name: true })
+                .describe('Source configuration to try, as it would appear in config (id and name optional, no auth or headers)'),
+        },
+        async ({ source }) => {
+            const config = services.config.getConfig();
+            const report = await services.tester.test(
+                {
+                    ...source,
+                    id: source.id ?? 'test-source',
+                    name: source.name ?? new URL(source.url).hostname,
+                },
+                config.requestTimeoutMs,
+                { maxResponseBytes: config.maxResponseBytes, retry: config.retry }
+            );
+
+            // A failing dry run is still a successful diagnosis
+            return {
+                content: [{ type: 'text', text: JSON.stringify(report, null, 2) }]
+            };
+        }
+    );
+
+    // 8. search-news - Ranked full-text search over stored items
+    server.tool(
+        'search-news',
+        {
+            query: z.string().min(1).describe('Words to search for; "quoted phrases" must appear as written'),
+            sourceId: z.string().optional().describe('Specific source ID to search'),
+            limit: z.number().min(1).max(100).default(10).describe('Max results to return'),
+        },
+        async ({ query, sourceId, limit }) => {
+            const config = services.config.getConfig();
+            let targetSources = config.sources.filter(s => s.enabled);
+
+            if (sourceId) {
+                targetSources = targetSources.filter(s => s.id === sourceId);
+                if (targetSources.length === 0) {
+                    return {
+                        content: [{ type: 'text', text: `Source '${sourceId}' not found or disabled.` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            const results = services.search.search(query, {
+                sourceIds: targetSources.map(s => s.id),
+                limit,
+            });
+
+            return {
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify(results.map(result => ({
+                        id: result.item.id,
+                        score: result.score,
+                        title: result.title,
+                        snippet: result.snippet,
+                        link: result.item.link,
+                        sourceId: result.item.sourceId,
+                        sourceName: result.item.sourceName,
+                        publishedAt: result.item.publishedAt,
+                    })), null, 2)
+                }]
+            };
+        }
+    );
 }
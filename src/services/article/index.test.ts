@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ArticleReader } from './index.js';
+import { FetchLimiter, UniversalParser } from '../parser/index.js';
+import { SentinelService } from '../sentinel/index.js';
+import { ItemStore } from '../store/index.js';
+import { RobotsService } from '../robots/index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+const articlePage = `<!doctype html><html lang="en"><head>
+    <title>Council approves budget | Example News</title>
+    <meta property="og:title" content="Council approves budget">
+    <meta name="author" content="Jane Reporter">
+    <meta property="article:published_time" content="2026-10-18T09:15:00Z">
+    <meta property="og:site_name" content="Example News">
+</head><body>
+    <header class="site-header"><nav><a href="/">Home</a><a href="/world">World</a></nav></header>
+    <div class="ad-slot">Buy one, get one free!</div>
+    <main>
+        <article class="story-body">
+            <h1>Council approves budget</h1>
+            <p>The city council approved the annual budget on Saturday, after a debate that ran late into the night, with a narrow majority.</p>
+            <p>The plan raises spending on <a href="/transit">public transit</a>, parks and schools, while keeping property taxes flat for a second year.</p>
+            <blockquote><p>This is a budget for everyone in the city, not just a few neighbourhoods.</p></blockquote>
+            <div class="share-buttons"><a href="#">Share</a><a href="#">Tweet</a></div>
+        </article>
+    </main>
+    <aside class="sidebar"><h3>Most read</h3><ul><li><a href="/a">Other story</a></li></ul></aside>
+    <footer>Copyright Example News</footer>
+</body></html>`;
+
+function createReader() {
+    const sentinel = new SentinelService({ failureThreshold: 1, recoveryTimeoutMs: 60000, successThreshold: 1 });
+    sentinel.registerSource({ id: 'example', name: 'Example', url: 'https://news.example.com/rss', type: 'rss', enabled: true, priority: 1 });
+
+    const store = new ItemStore(50);
+    store.upsert('example', [{
+        id: 'item-1',
+        title: 'Council approves budget',
+        link: 'https://news.example.com/2026/budget',
+        description: 'Teaser only',
+        categories: [],
+        sourceId: 'example',
+        sourceName: 'Example',
+    }]);
+
+    const limiter = new FetchLimiter({ maxConcurrentFetches: 10, perHost: { requestsPerSecond: 1000, burst: 100 }, hosts: {} });
+    const robots = new RobotsService({ enabled: true, userAgent: 'OmniWire-MCP', cacheTtlMs: 60000, respectCrawlDelay: false });
+    const reader = new ArticleReader(new UniversalParser(limiter), sentinel, store, robots);
+
+    return { reader, sentinel };
+}
+
+describe('ArticleReader', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should extract the article body by item ID and cache it', async () => {
+        const fetchMock = vi.fn(async (url: string) => url.endsWith('/robots.txt')
+            ? new Response('not found', { status: 404 })
+            : new Response(articlePage, { status: 200, headers: { 'content-type': 'text/html' } }));
+        vi.stubGlobal('fetch', fetchMock);
+        const { reader } = createReader();
+
+        const article = await reader.read({ id: 'item-1' });
+
+        expect(article).toMatchObject({
+            url: 'https://news.example.com/2026/budget',
+            title: 'Council approves budget',
+            byline: 'Jane Reporter',
+            siteName: 'Example News',
+            lang: 'en',
+            sourceId: 'example',
+            itemId: 'item-1',
+            cached: false,
+        });
+        expect(article.publishedAt?.toISOString()).toBe('2026-10-18T09:15:00.000Z');
+        expect(article.content).toContain('[public transit](https://news.example.com/transit)');
+        expect(article.content).toContain('> This is a budget for everyone');
+        expect(article.content).not.toMatch(/Buy one|Most read|Copyright|Tweet|Home/);
+
+        const text = await reader.read({ url: 'https://news.example.com/2026/budget' }, 'text');
+        expect(text.cached).toBe(true);
+        expect(text.content).toContain('The plan raises spending on public transit, parks');
+        expect(fetchMock.mock.calls.filter(([url]) => !url.endsWith('/robots.txt'))).toHaveLength(1);
+    });
+
+    it('should not count article failures against the source circuit', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('gone', { status: 404 })));
+        const { reader, sentinel } = createReader();
+
+        await expect(reader.read({ id: 'item-1' })).rejects.toThrow(/Failed to fetch article/);
+        expect(sentinel.canRequest('example')).toBe(true);
+        expect(sentinel.getSourceHealth('example')?.totalRequests).toBe(0);
+    });
+
+    it('should not fetch when the owning source circuit is open', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        const { reader, sentinel } = createReader();
+        sentinel.recordFailure('example', 'boom');
+
+        await expect(reader.read({ id: 'item-1' })).rejects.toThrow(/circuit open/);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
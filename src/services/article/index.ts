@@ -0,0 +1,249 @@
+import { SourceConfig, SourceConfigSchema } from '../../config/schema.js';
+import { FetchedDocument, FetchOptions, NewsItem, UniversalParser } from '../parser/index.js';
+import { canonicalUrlKey, cleanUrl } from '../parser/ids.js';
+import { SentinelService } from '../sentinel/index.js';
+import { ItemStore } from '../store/index.js';
+import { RobotsService } from '../robots/index.js';
+import { htmlToMarkdown, htmlToText } from '../../utils/html.js';
+import { createLogger } from '../../utils/logger.js';
+import { extractArticle, ExtractedArticle } from './readability.js';
+
+const logger = createLogger('ArticleReader');
+
+export type ArticleFormat = 'text' | 'markdown';
+
+/**
+ * A readable article, rendered in the requested format
+ */
+export interface Article {
+    url: string;
+    title: string | null;
+    byline: string | null;
+    publishedAt: Date | null;
+    siteName: string | null;
+    lang: string | null;
+    format: ArticleFormat;
+    content: string;
+    wordCount: number;
+    /** Store item and source the article belongs to, when known */
+    itemId?: string;
+    sourceId?: string;
+    cached: boolean;
+}
+
+export interface ArticleReaderOptions {
+    /** How long extracted articles stay cached */
+    cacheTtlMs?: number;
+    /** Maximum number of cached articles */
+    maxCacheEntries?: number;
+}
+
+interface CacheEntry {
+    url: string;
+    article: ExtractedArticle;
+    expiresAt: number;
+}
+
+/** Extracted bodies shorter than this are treated as a failed extraction */
+const MIN_ARTICLE_LENGTH = 140;
+
+/**
+ * Article Reader: Full-text extraction for news items
+ *
+ * Features:
+ * - Accepts a store item ID or a plain URL
+ * - Fetches through UniversalParser (limits, retries, charset decoding)
+ * - Gated by the owning source's circuit breaker (without feeding it) and robots.txt
+ * - Readability-style extraction rendered as text or Markdown
+ * - Bounded in-memory cache keyed by URL
+ */
+export class ArticleReader {
+    private cache: Map<string, CacheEntry> = new Map();
+    private readonly cacheTtlMs: number;
+    private readonly maxCacheEntries: number;
+
+    constructor(
+        private readonly parser: UniversalParser,
+        private readonly sentinel: SentinelService,
+        private readonly store: ItemStore,
+        private readonly robots: RobotsService,
+        options: ArticleReaderOptions = {}
+    ) {
+        this.cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+        this.maxCacheEntries = options.maxCacheEntries ?? 200;
+    }
+
+    /**
+     * Fetch and extract an article
+     *
+     * @param target store item ID or article URL
+     * @param sources configured sources, used to attribute bare URLs
+     */
+    public async read(
+        target: { id?: string; url?: string },
+        format: ArticleFormat = 'markdown',
+        sources: SourceConfig[] = [],
+        timeoutMs: number = 10000,
+        options: FetchOptions = {}
+    ): Promise<Article> {
+        const item = this.findItem(target);
+        const url = item?.link || target.url;
+        if (!url) {
+            throw new Error(target.id ? `Item '${target.id}' not found` : 'Either an item ID or a URL is required');
+        }
+
+        const sourceId = item?.sourceId ?? this.matchSource(url, sources)?.id;
+
+        const cached = this.cache.get(canonicalUrlKey(url));
+        if (cached && cached.expiresAt > Date.now()) {
+            return this.render(cached, format, item, sourceId, true);
+        }
+
+        const entry = await this.fetchArticle(url, sourceId, timeoutMs, options);
+        return this.render(entry, format, item, sourceId, false);
+    }
+
+    /**
+     * Drop all cached articles
+     */
+    public clearCache(): void {
+        this.cache.clear();
+    }
+
+    private async fetchArticle(
+        url: string,
+        sourceId: string | undefined,
+        timeoutMs: number,
+        options: FetchOptions
+    ): Promise<CacheEntry> {
+        if (sourceId && !this.sentinel.canRequest(sourceId)) {
+            throw new Error(`Source '${sourceId}' is unavailable (circuit open)`);
+        }
+
+        const decision = await this.robots.acquire(url);
+        if (!decision.allowed) {
+            throw new Error(decision.reason ?? 'Disallowed by robots.txt');
+        }
+
+        let document: FetchedDocument;
+        try {
+            document = await this.parser.fetchDocument(this.adHocSource(url), timeoutMs, options);
+        } catch (error) {
+            // Not reported to Sentinel: a few dead article links must not open the feed's circuit
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.warn(`Failed to fetch article ${url}${sourceId ? ` (${sourceId})` : ''}: ${message}`);
+            throw new Error(`Failed to fetch article: ${message}`);
+        }
+
+        const article = extractArticle(document.content);
+        if (article.textLength < MIN_ARTICLE_LENGTH) {
+            throw new Error(`No readable article content found at ${document.url}`);
+        }
+
+        const entry: CacheEntry = {
+            url: this.resolveCanonical(article.canonicalUrl, document.url),
+            article,
+            expiresAt: Date.now() + this.cacheTtlMs,
+        };
+        this.cacheArticle(canonicalUrlKey(url), entry);
+
+        logger.debug(`Extracted ${article.textLength} chars from ${document.url}`);
+        return entry;
+    }
+
+    private render(
+        entry: CacheEntry,
+        format: ArticleFormat,
+        item: NewsItem | undefined,
+        sourceId: string | undefined,
+        cached: boolean
+    ): Article {
+        const { article } = entry;
+        const content = format === 'markdown'
+            ? htmlToMarkdown(article.contentHtml, entry.url)
+            : htmlToText(article.contentHtml, entry.url);
+
+        return {
+            url: entry.url,
+            title: article.title ?? item?.title ?? null,
+            byline: article.byline ?? item?.author ?? null,
+            publishedAt: article.publishedAt ?? item?.publishedAt ?? null,
+            siteName: article.siteName,
+            lang: article.lang,
+            format,
+            content,
+            wordCount: content.split(/\s+/).filter(Boolean).length,
+            itemId: item?.id,
+            sourceId,
+            cached,
+        };
+    }
+
+    /**
+     * Prefer the page's canonical URL over the fetched one (same host only,
+     * tracking parameters removed)
+     */
+    private resolveCanonical(canonical: string | null, fetchedUrl: string): string {
+        if (!canonical) return cleanUrl(fetchedUrl);
+        try {
+            const resolved = new URL(canonical, fetchedUrl);
+            const fetched = new URL(fetchedUrl);
+            if (resolved.hostname.replace(/^www\./, '') !== fetched.hostname.replace(/^www\./, '')) {
+                return cleanUrl(fetchedUrl);
+            }
+            return cleanUrl(resolved.href);
+        } catch {
+            return cleanUrl(fetchedUrl);
+        }
+    }
+
+    private cacheArticle(key: string, entry: CacheEntry): void {
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+
+        // Map keeps insertion order, so the first key is the oldest
+        while (this.cache.size > this.maxCacheEntries) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest === undefined) break;
+            this.cache.delete(oldest);
+        }
+    }
+
+    /**
+     * Look up the stored item for an ID or link
+     */
+    private findItem(target: { id?: string; url?: string }): NewsItem | undefined {
+        const items = this.store.getAllItems();
+        if (target.id) return items.find(item => item.id === target.id);
+        if (target.url) {
+            const key = canonicalUrlKey(target.url);
+            return items.find(item => canonicalUrlKey(item.link) === key);
+        }
+        return undefined;
+    }
+
+    /**
+     * Attribute a bare URL to the configured source on the same host
+     */
+    private matchSource(url: string, sources: SourceConfig[]): SourceConfig | undefined {
+        const host = new URL(url).host;
+        return sources.find(source => {
+            try {
+                return new URL(source.url).host === host;
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Throwaway source config used for article requests
+     */
+    private adHocSource(url: string): SourceConfig {
+        return SourceConfigSchema.parse({
+            id: 'article-reader',
+            name: 'Article reader',
+            url,
+        });
+    }
+}
@@ -0,0 +1,218 @@
+import { parse as parseHTML, HTMLElement } from 'node-html-parser';
+import { parseDate } from '../parser/dates.js';
+import { HTML_PARSE_OPTIONS } from '../../utils/html.js';
+
+/**
+ * Main content and metadata pulled out of an article page
+ */
+export interface ExtractedArticle {
+    title: string | null;
+    byline: string | null;
+    publishedAt: Date | null;
+    siteName: string | null;
+    lang: string | null;
+    /** <link rel="canonical"> or og:url, as written in the page */
+    canonicalUrl: string | null;
+    /** Cleaned HTML of the main content element */
+    contentHtml: string;
+    /** Plain-text length of the main content */
+    textLength: number;
+}
+
+/** Elements that never hold article text */
+const STRIP_TAGS = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'form', 'button', 'input',
+    'select', 'textarea', 'nav', 'aside', 'footer', 'svg', 'canvas', 'object', 'embed',
+];
+
+/** Landmark roles used for page chrome */
+const STRIP_ROLES = ['navigation', 'banner', 'complementary', 'contentinfo', 'dialog', 'search'];
+
+const UNLIKELY = /ad-|ads\b|adv|banner|breadcrumb|combx|comment|community|cookie|consent|disqus|footer|header|masthead|menu|modal|nav|newsletter|outbrain|pager|paywall|popup|promo|related|share|sharing|sidebar|social|sponsor|subscribe|taboola|toolbar|widget/i;
+const LIKELY = /article|body|content|entry|main|page|post|story|text/i;
+const POSITIVE = /article|body|content|entry|hentry|main|page|post|story|text|blog/i;
+const NEGATIVE = /hidden|banner|combx|comment|contact|foot|footer|footnote|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+/** Minimum paragraph length that counts towards a candidate's score */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Readability-style article extraction
+ *
+ * Strips page chrome, scores paragraph containers by text density (commas,
+ * length, class/id hints, link density) and returns the best-scoring
+ * element together with title, byline and publish date.
+ */
+export function extractArticle(html: string): ExtractedArticle {
+    const root = parseHTML(html, HTML_PARSE_OPTIONS);
+    const meta = readMetadata(root);
+
+    const body = root.querySelector('body') ?? root;
+    stripChrome(body);
+
+    const candidate = findTopCandidate(body) ?? body;
+
+    // Drop leftovers inside the winner: link farms and empty blocks
+    for (const el of candidate.querySelectorAll('div, section, ul, ol, table')) {
+        const text = el.text.trim();
+        if (!text && !el.querySelector('img')) {
+            el.remove();
+        } else if (text.length < 200 && linkDensity(el) > 0.5) {
+            el.remove();
+        }
+    }
+
+    // A heading repeating the title is noise in the body
+    const firstHeading = candidate.querySelector('h1');
+    if (firstHeading && meta.title && firstHeading.text.trim() === meta.title) {
+        firstHeading.remove();
+    }
+
+    return {
+        ...meta,
+        contentHtml: candidate.innerHTML,
+        textLength: candidate.text.replace(/\s+/g, ' ').trim().length,
+    };
+}
+
+/**
+ * Title, byline, date and site name from meta tags and common markup
+ */
+function readMetadata(root: HTMLElement): Omit<ExtractedArticle, 'contentHtml' | 'textLength'> {
+    const metaContent = (...selectors: string[]): string | null => {
+        for (const selector of selectors) {
+            const value = root.querySelector(selector)?.getAttribute('content')?.trim();
+            if (value) return value;
+        }
+        return null;
+    };
+    const elementText = (...selectors: string[]): string | null => {
+        for (const selector of selectors) {
+            const value = root.querySelector(selector)?.text.replace(/\s+/g, ' ').trim();
+            if (value) return value;
+        }
+        return null;
+    };
+
+    const title = metaContent('meta[property="og:title"]', 'meta[name="twitter:title"]') ??
+        elementText('article h1', 'h1', 'title');
+
+    const byline = metaContent('meta[name="author"]', 'meta[property="article:author"]') ??
+        elementText('[rel="author"]', '[itemprop="author"]', '.byline', '.author');
+
+    const dateValue = metaContent(
+        'meta[property="article:published_time"]',
+        'meta[itemprop="datePublished"]',
+        'meta[name="date"]',
+        'meta[name="pubdate"]'
+    ) ?? root.querySelector('time[datetime]')?.getAttribute('datetime') ?? null;
+
+    return {
+        title,
+        // Some sites put profile URLs in article:author
+        byline: byline && !/^https?:\/\//.test(byline) ? byline : null,
+        publishedAt: parseDate(dateValue) ?? null,
+        siteName: metaContent('meta[property="og:site_name"]'),
+        lang: root.querySelector('html')?.getAttribute('lang') ?? null,
+        canonicalUrl: root.querySelector('link[rel="canonical"]')?.getAttribute('href')?.trim() ||
+            metaContent('meta[property="og:url"]'),
+    };
+}
+
+/**
+ * Remove navigation, ads and other non-content elements
+ */
+function stripChrome(body: HTMLElement): void {
+    for (const el of body.querySelectorAll(STRIP_TAGS.join(', '))) {
+        el.remove();
+    }
+
+    for (const el of body.querySelectorAll('[role], [aria-hidden="true"], [hidden]')) {
+        const role = el.getAttribute('role');
+        if (el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true' || (role && STRIP_ROLES.includes(role))) {
+            el.remove();
+        }
+    }
+
+    for (const el of body.querySelectorAll('[class], [id]')) {
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'body' || tag === 'article' || tag === 'main') continue;
+
+        const hint = `${el.classNames} ${el.id}`;
+        if (UNLIKELY.test(hint) && !LIKELY.test(hint)) {
+            el.remove();
+        }
+    }
+}
+
+/**
+ * Score paragraph containers and return the best one
+ */
+function findTopCandidate(body: HTMLElement): HTMLElement | null {
+    const scores = new Map<HTMLElement, number>();
+
+    const initialize = (el: HTMLElement): void => {
+        if (scores.has(el)) return;
+        let score = classWeight(el);
+        switch (el.tagName.toLowerCase()) {
+            case 'article': score += 10; break;
+            case 'div': case 'section': case 'main': score += 5; break;
+            case 'pre': case 'td': case 'blockquote': score += 3; break;
+            case 'ol': case 'ul': case 'li': case 'dl': case 'dd': case 'dt': case 'form': score -= 3; break;
+            case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': case 'th': score -= 5; break;
+        }
+        scores.set(el, score);
+    };
+
+    for (const paragraph of body.querySelectorAll('p, pre, td, blockquote')) {
+        const text = paragraph.text.replace(/\s+/g, ' ').trim();
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+        const parent = paragraph.parentNode;
+        if (!(parent instanceof HTMLElement) || !parent.tagName) continue;
+
+        const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+        initialize(parent);
+        scores.set(parent, scores.get(parent)! + contentScore);
+
+        const grandparent = parent.parentNode;
+        if (grandparent instanceof HTMLElement && grandparent.tagName) {
+            initialize(grandparent);
+            scores.set(grandparent, scores.get(grandparent)! + contentScore / 2);
+        }
+    }
+
+    let best: HTMLElement | null = null;
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el));
+        if (adjusted > bestScore) {
+            best = el;
+            bestScore = adjusted;
+        }
+    }
+
+    return best;
+}
+
+function classWeight(el: HTMLElement): number {
+    let weight = 0;
+    for (const hint of [el.classNames, el.id]) {
+        if (!hint) continue;
+        if (NEGATIVE.test(hint)) weight -= 25;
+        if (POSITIVE.test(hint)) weight += 25;
+    }
+    return weight;
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function linkDensity(el: HTMLElement): number {
+    const textLength = el.text.replace(/\s+/g, ' ').trim().length;
+    if (textLength === 0) return 0;
+    const linkLength = el.querySelectorAll('a')
+        .reduce((sum, a) => sum + a.text.replace(/\s+/g, ' ').trim().length, 0);
+    return linkLength / textLength;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { StoryClusterer } from './index.js';
+import { titleTokens } from './similarity.js';
+import { NewsItem } from '../parser/index.js';
+
+const hour = 60 * 60 * 1000;
+const base = Date.parse('2026-03-10T12:00:00Z');
+
+function item(id: string, sourceId: string, title: string, link: string, hoursLater: number, extra: Partial<NewsItem> = {}): NewsItem {
+    return {
+        id,
+        title,
+        link,
+        sourceId,
+        sourceName: sourceId.toUpperCase(),
+        publishedAt: new Date(base + hoursLater * hour),
+        categories: [],
+        ...extra,
+    };
+}
+
+describe('StoryClusterer', () => {
+    const clusterer = new StoryClusterer();
+
+    it('should normalize headlines into comparable shingles', () => {
+        expect(titleTokens('Apple’s Vision Pro 2 launches in Europe - The Verge', 'The Verge'))
+            .toEqual(new Set(['apple', 'vision', 'pro', '2', 'launch', 'europe']));
+        expect(titleTokens('Café prices rise')).toEqual(new Set(['cafe', 'price', 'rise']));
+    });
+
+    it('should group coverage of one story across sources', () => {
+        const items = [
+            item('verge-1', 'verge', 'Apple launches Vision Pro 2 with faster chip', 'https://www.theverge.com/apple-vision-pro-2', 3, {
+                description: 'Hands-on',
+                content: '<p>Full review</p>',
+            }),
+            item('wired-1', 'wired', 'Apple’s Vision Pro 2 launches with a faster chip', 'https://www.wired.com/story/vision-pro-2', 1),
+            item('hn-1', 'hn', 'Vision Pro 2', 'https://www.wired.com/story/vision-pro-2/?utm_source=hn', 2),
+            item('verge-2', 'verge', 'Senate passes new privacy bill', 'https://www.theverge.com/privacy-bill', 4),
+        ];
+
+        const clusters = clusterer.cluster(items);
+
+        expect(clusters).toHaveLength(2);
+        const [privacy, vision] = clusters;
+        expect(privacy.items.map(i => i.id)).toEqual(['verge-2']);
+        expect(vision.id).toBe('wired-1');
+        expect(vision.representative.id).toBe('verge-1');
+        expect(vision.sources.map(s => s.sourceId)).toEqual(['wired', 'hn', 'verge']);
+        expect(vision.firstPublishedAt).toEqual(new Date(base + hour));
+
+        expect(clusterer.dedupe(items).map(i => i.id)).toEqual(['verge-2', 'verge-1']);
+    });
+
+    it('should not merge by title across the time window or within one source', () => {
+        const items = [
+            item('a', 'one', 'Storm closes schools across the region', 'https://one.example/storm', 0),
+            item('b', 'two', 'Storm closes schools across region', 'https://two.example/storm', 24 * 5),
+            item('c', 'one', 'Storm closes schools across the region again', 'https://one.example/storm-2', 1),
+        ];
+
+        expect(clusterer.cluster(items)).toHaveLength(3);
+    });
+    it('should not merge items that have no link', () => {
+        const items = [
+            item('a', 'one', 'Council approves new budget', '', 0),
+            item('b', 'two', 'Local team wins the cup final', '', 1),
+        ];
+
+        expect(clusterer.cluster(items)).toHaveLength(2);
+        expect(clusterer.dedupe(items)).toHaveLength(2);
+    });
+});
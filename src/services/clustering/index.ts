@@ -0,0 +1,212 @@
+import { NewsItem } from '../parser/index.js';
+import { canonicalUrlKey } from '../parser/ids.js';
+import { ItemStore } from '../store/index.js';
+import { SIGNATURE_SIZE, jaccard, minHash, titleTokens } from './similarity.js';
+
+/** MinHash rows per LSH band; 2 rows over 64 slots finds nearly all pairs above 0.4 */
+const ROWS_PER_BAND = 2;
+
+/**
+ * Clustering thresholds
+ */
+export interface ClusterOptions {
+    /** Title Jaccard similarity at which two items are the same story (0-1) */
+    titleSimilarity?: number;
+    /** Items published further apart than this are never merged by title (ms) */
+    windowMs?: number;
+    /** Titles with fewer meaningful words only cluster by URL */
+    minTitleTokens?: number;
+}
+
+/**
+ * A source covering a story, with its earliest item
+ */
+export interface ClusterSource {
+    sourceId: string;
+    sourceName: string;
+    itemId: string;
+    title: string;
+    link: string;
+    publishedAt?: Date;
+}
+
+/**
+ * One story as reported by one or more sources
+ */
+export interface StoryCluster {
+    /** ID of the earliest item, stable as later coverage joins */
+    id: string;
+    /** Most complete item in the cluster */
+    representative: NewsItem;
+    /** Covering sources, earliest first (undated last) */
+    sources: ClusterSource[];
+    /** All member items, earliest first */
+    items: NewsItem[];
+    /** Publication date of the earliest member, if any is dated */
+    firstPublishedAt?: Date;
+}
+
+/**
+ * Story Clusterer: Cross-source grouping of aggregated items
+ *
+ * Features:
+ * - Same canonical URL (tracking parameters, www, scheme ignored) = same story
+ * - Headline similarity via word shingles, MinHash and LSH banding
+ * - Time proximity window for title matches
+ * - Representative item and covering sources per cluster, earliest first
+ */
+export class StoryClusterer {
+    private readonly titleSimilarity: number;
+    private readonly windowMs: number;
+    private readonly minTitleTokens: number;
+
+    constructor(options: ClusterOptions = {}) {
+        this.titleSimilarity = options.titleSimilarity ?? 0.5;
+        this.windowMs = options.windowMs ?? 48 * 60 * 60 * 1000;
+        this.minTitleTokens = options.minTitleTokens ?? 3;
+    }
+
+    /**
+     * Group items into stories, newest story first
+     */
+    public cluster(items: NewsItem[]): StoryCluster[] {
+        const parents = items.map((_, index) => index);
+        const find = (index: number): number => {
+            while (parents[index] !== index) {
+                parents[index] = parents[parents[index]];
+                index = parents[index];
+            }
+            return index;
+        };
+        const union = (a: number, b: number) => {
+            const rootA = find(a);
+            const rootB = find(b);
+            if (rootA !== rootB) parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+        };
+
+        // Same article, e.g. an aggregator linking to the original.
+        // Items without a web link (feeds fall back to '') share nothing.
+        const byUrl = new Map<string, number>();
+        items.forEach((item, index) => {
+            if (!/^https?:\/\//i.test(item.link)) return;
+            const key = canonicalUrlKey(item.link);
+            const first = byUrl.get(key);
+            if (first === undefined) byUrl.set(key, index);
+            else union(first, index);
+        });
+
+        // Similar headlines: LSH buckets propose candidates, exact Jaccard decides
+        const tokens = items.map(item => titleTokens(item.title, item.sourceName));
+        const buckets = new Map<string, number[]>();
+        tokens.forEach((set, index) => {
+            if (set.size < this.minTitleTokens) return;
+            const signature = minHash(set);
+            for (let band = 0; band < SIGNATURE_SIZE / ROWS_PER_BAND; band++) {
+                const start = band * ROWS_PER_BAND;
+                const key = `${band}:${signature.slice(start, start + ROWS_PER_BAND).join(',')}`;
+                const bucket = buckets.get(key);
+                if (bucket) bucket.push(index);
+                else buckets.set(key, [index]);
+            }
+        });
+
+        const compared = new Set<number>();
+        for (const bucket of buckets.values()) {
+            for (let i = 0; i < bucket.length; i++) {
+                for (let j = i + 1; j < bucket.length; j++) {
+                    const a = bucket[i];
+                    const b = bucket[j];
+                    const pair = a * items.length + b;
+                    if (compared.has(pair)) continue;
+                    compared.add(pair);
+                    if (this.isSameStory(items[a], items[b], tokens[a], tokens[b])) union(a, b);
+                }
+            }
+        }
+
+        const groups = new Map<number, NewsItem[]>();
+        items.forEach((item, index) => {
+            const root = find(index);
+            const group = groups.get(root);
+            if (group) group.push(item);
+            else groups.set(root, [item]);
+        });
+
+        return [...groups.values()]
+            .map(group => this.buildCluster(group))
+            .sort((a, b) => this.latest(b.items) - this.latest(a.items));
+    }
+
+    /**
+     * One item per story (each cluster's representative), newest first
+     */
+    public dedupe(items: NewsItem[]): NewsItem[] {
+        return ItemStore.sortByDate(this.cluster(items).map(cluster => cluster.representative));
+    }
+
+    /**
+     * Title matches only count across sources and within the time window
+     */
+    private isSameStory(a: NewsItem, b: NewsItem, tokensA: Set<string>, tokensB: Set<string>): boolean {
+        if (a.sourceId === b.sourceId) return false;
+        if (a.publishedAt && b.publishedAt) {
+            const gap = Math.abs(this.time(a) - this.time(b));
+            if (gap > this.windowMs) return false;
+        }
+        return jaccard(tokensA, tokensB) >= this.titleSimilarity;
+    }
+
+    private buildCluster(group: NewsItem[]): StoryCluster {
+        const items = [...group].sort((a, b) => this.firstSort(a, b));
+
+        const sources: ClusterSource[] = [];
+        const seen = new Set<string>();
+        for (const item of items) {
+            if (seen.has(item.sourceId)) continue;
+            seen.add(item.sourceId);
+            sources.push({
+                sourceId: item.sourceId,
+                sourceName: item.sourceName,
+                itemId: item.id,
+                title: item.title,
+                link: item.link,
+                publishedAt: item.publishedAt,
+            });
+        }
+
+        // Richest item wins; the earliest breaks ties
+        const representative = items.reduce((best, item) =>
+            this.richness(item) > this.richness(best) ? item : best
+        );
+
+        return {
+            id: items[0].id,
+            representative,
+            sources,
+            items,
+            firstPublishedAt: items[0].publishedAt,
+        };
+    }
+
+    /**
+     * Earliest first, undated items last
+     */
+    private firstSort(a: NewsItem, b: NewsItem): number {
+        const timeA = a.publishedAt ? this.time(a) : Infinity;
+        const timeB = b.publishedAt ? this.time(b) : Infinity;
+        if (timeA === timeB) return 0;
+        return timeA < timeB ? -1 : 1;
+    }
+
+    private richness(item: NewsItem): number {
+        return (item.content ? 2 : 0) + (item.description ? 1 : 0) + (item.imageUrl ? 1 : 0) + (item.author ? 1 : 0);
+    }
+
+    private latest(items: NewsItem[]): number {
+        return Math.max(...items.map(item => (item.publishedAt ? this.time(item) : 0)));
+    }
+
+    private time(item: NewsItem): number {
+        return new Date(item.publishedAt!).getTime();
+    }
+}
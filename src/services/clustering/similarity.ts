@@ -0,0 +1,119 @@
+/**
+ * Title normalization and MinHash helpers for story clustering
+ */
+
+/** Words too common to say anything about a headline */
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'is',
+    'it', 'its', 'new', 'of', 'on', 'or', 'over', 'says', 'that', 'the', 'this', 'to', 'up', 'was',
+    'what', 'when', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/** Hash functions per MinHash signature */
+export const SIGNATURE_SIZE = 64;
+
+/**
+ * Normalized word shingles of a headline
+ *
+ * Lowercases, strips accents, punctuation and possessives, drops
+ * stopwords and a trailing "- Source Name" / "| Source Name" suffix, and
+ * folds simple plurals ("launches" and "launch" match).
+ */
+export function titleTokens(title: string, sourceName?: string): Set<string> {
+    let text = fold(title);
+
+    if (sourceName) {
+        const suffix = fold(sourceName);
+        for (const separator of [' - ', ' | ', ' — ', ' – ']) {
+            if (text.endsWith(`${separator}${suffix}`)) {
+                text = text.slice(0, -(separator.length + suffix.length));
+                break;
+            }
+        }
+    }
+
+    const tokens = new Set<string>();
+    for (const raw of text.replace(/['’]s\b/g, '').split(/[^\p{L}\p{N}]+/u)) {
+        if (!raw || STOPWORDS.has(raw)) continue;
+        tokens.add(stem(raw));
+    }
+    return tokens;
+}
+
+/**
+ * Lowercase and strip accents
+ */
+function fold(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Fold common English plural endings
+ */
+function stem(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+    if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+    if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+/**
+ * Jaccard similarity of two shingle sets
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    for (const token of small) {
+        if (large.has(token)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * MinHash signature of a shingle set
+ *
+ * Each of the SIGNATURE_SIZE slots keeps the smallest hash of any shingle
+ * under a differently seeded hash function, so two signatures agree on a
+ * slot with probability equal to the sets' Jaccard similarity.
+ */
+export function minHash(tokens: Set<string>): Uint32Array {
+    const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+    for (const token of tokens) {
+        const base = fnv1a(token);
+        for (let i = 0; i < SIGNATURE_SIZE; i++) {
+            const hash = fmix32(base ^ SEEDS[i]);
+            if (hash < signature[i]) signature[i] = hash;
+        }
+    }
+    return signature;
+}
+
+/** Fixed seeds keep signatures stable across runs */
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b1)));
+
+/**
+ * 32-bit FNV-1a string hash
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, spreads the bits of a 32-bit value
+ */
+function fmix32(value: number): number {
+    let h = value;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SourceTester } from './index.js';
+import { FetchLimiter, UniversalParser } from '../parser/index.js';
+import { RobotsService } from '../robots/index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+const rss = `<rss version="2.0"><channel><title>Example News</title>
+    <item><title>One</title><link>https://example.com/1</link><description>First story</description></item>
+    <item><description>Neither title nor link</description></item>
+    <item><link>https://example.com/3</link></item>
+</channel></rss>`;
+
+function createTester(): SourceTester {
+    const limiter = new FetchLimiter({ maxConcurrentFetches: 10, perHost: { requestsPerSecond: 1000, burst: 100 }, hosts: {} });
+    return new SourceTester(new UniversalParser(limiter), new RobotsService());
+}
+
+const source = {
+    id: 'dry-run',
+    name: 'Dry Run',
+    url: 'https://example.com/rss',
+    type: 'auto' as const,
+    priority: 50,
+    enabled: true,
+};
+
+describe('SourceTester', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    it('should report detection, skipped entries and empty fields', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(rss, {
+            status: 200,
+            headers: { 'content-type': 'application/rss+xml', 'set-cookie': 'session=secret' },
+        })));
+
+        const report = await createTester().test(source);
+
+        expect(report.ok).toBe(true);
+        expect(report.http).toMatchObject({ status: 200, contentType: 'application/rss+xml', attempts: 1 });
+        expect(report.http?.headers['set-cookie']).toBeUndefined();
+        expect(report.detection?.type).toBe('rss');
+        expect(report.adapter).toBe('RSSAdapter');
+        expect(report.items).toEqual({ parsed: 2, skipped: 1 });
+        expect(report.skipped[0]).toMatchObject({ index: 1, message: 'RSS item 2 skipped: no title or link' });
+        expect(report.emptyFields).toMatchObject({ title: 1, description: 1, author: 2 });
+        expect(report.sample).toHaveLength(2);
+        expect(report.timing.totalMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report HTTP failures after a single attempt', async () => {
+        const fetchMock = vi.fn(async () => new Response('unavailable', { status: 503 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const report = await createTester().test(source);
+
+        expect(report.ok).toBe(false);
+        expect(report.error).toContain('503');
+        expect(report.http?.status).toBe(503);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(report.items.parsed).toBe(0);
+    });
+
+    it('should redact an API key sent in the query string', async () => {
+        vi.stubEnv('DRY_RUN_KEY', 'secret-key');
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(rss, {
+            status: 200,
+            headers: { 'content-type': 'application/rss+xml' },
+        })));
+
+        const report = await createTester().test({
+            ...source,
+            auth: { type: 'apiKey', keyEnv: 'DRY_RUN_KEY', name: 'key', in: 'query' },
+        });
+
+        expect(report.http?.url).toBe('https://example.com/rss?key=REDACTED');
+        expect(JSON.stringify(report)).not.toContain('secret-key');
+    });
+
+    it('should honor robots.txt when an auto source sniffs as HTML', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('/robots.txt')
+            ? new Response('User-agent: *\nDisallow: /', { status: 200 })
+            : new Response('<html><body><article><a href="/1">Story</a></article></body></html>', {
+                status: 200,
+                headers: { 'content-type': 'text/html' },
+            })));
+
+        const report = await createTester().test(source);
+
+        expect(report.ok).toBe(false);
+        expect(report.detection?.type).toBe('html');
+        expect(report.errorKind).toBe('robots');
+        expect(report.error).toContain('robots.txt');
+        expect(report.items.parsed).toBe(0);
+    });
+});
@@ -0,0 +1,241 @@
+import { RetryPolicySchema, SourceConfig } from '../../config/schema.js';
+import {
+    Detection,
+    FetchedDocument,
+    FetchError,
+    FetchOptions,
+    NewsItem,
+    ParseResult,
+    ParseWarning,
+    UniversalParser,
+    withContentFormat,
+} from '../parser/index.js';
+import { RobotsService } from '../robots/index.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('SourceTester');
+
+/** NewsItem fields checked for emptiness */
+const CHECKED_FIELDS = [
+    'title', 'link', 'guid', 'description', 'content', 'author',
+    'publishedAt', 'categories', 'imageUrl', 'enclosures',
+] as const;
+
+/** Items echoed back in a report */
+const SAMPLE_SIZE = 3;
+
+/** Sample descriptions/content are cut to this many characters */
+const SAMPLE_TEXT_LENGTH = 280;
+
+/** Response headers never echoed back */
+const HIDDEN_HEADERS = new Set(['set-cookie']);
+
+/**
+ * HTTP side of a dry run
+ */
+export interface SourceTestHttp {
+    /** Final URL after redirects */
+    url: string;
+    status: number | null;
+    headers: Record<string, string>;
+    contentType: string | null;
+    /** Decoded body length in characters */
+    length: number;
+    attempts: number;
+}
+
+/**
+ * Everything learned from fetching and parsing a source once
+ */
+export interface SourceTestReport {
+    /** True when the source parsed and produced at least one item */
+    ok: boolean;
+    source: { id: string; url: string; type: string };
+    error: string | null;
+    /** Category of the error, e.g. parse-limit */
+    errorKind: string | null;
+    http: SourceTestHttp | null;
+    timing: { fetchMs: number | null; parseMs: number | null; totalMs: number };
+    detection: Detection | null;
+    adapter: string | null;
+    items: { parsed: number; skipped: number };
+    /** Why entries were dropped */
+    skipped: ParseWarning[];
+    /** Document-level problems */
+    warnings: ParseWarning[];
+    /** Per NewsItem field, how many parsed items left it empty */
+    emptyFields: Record<string, number>;
+    /** First few items, as plain text */
+    sample: NewsItem[];
+}
+
+/**
+ * Source Tester: Dry runs for source configurations
+ *
+ * Features:
+ * - Fetches and parses an ad-hoc SourceConfig without saving it
+ * - Single attempt, first page only, no conditional-GET cache
+ * - Honors robots.txt for html sources, like the poller
+ * - Reports HTTP status, headers, timing, detection and adapter (secrets redacted)
+ * - Lists skipped entries with reasons and fields left empty
+ */
+export class SourceTester {
+    constructor(
+        private readonly parser: UniversalParser,
+        private readonly robots: RobotsService
+    ) { }
+
+    /**
+     * Fetch and parse a source once and describe the outcome
+     */
+    public async test(
+        source: SourceConfig,
+        timeoutMs: number = 10000,
+        options: FetchOptions = {}
+    ): Promise<SourceTestReport> {
+        const startTime = Date.now();
+        const report: SourceTestReport = {
+            ok: false,
+            source: { id: source.id, url: source.url, type: source.type },
+            error: null,
+            errorKind: null,
+            http: null,
+            timing: { fetchMs: null, parseMs: null, totalMs: 0 },
+            detection: null,
+            adapter: null,
+            items: { parsed: 0, skipped: 0 },
+            skipped: [],
+            warnings: [],
+            emptyFields: {},
+            sample: [],
+        };
+        const finish = (): SourceTestReport => {
+            report.timing.totalMs = Date.now() - startTime;
+            return report;
+        };
+
+        if (source.type === 'html') {
+            const decision = await this.robots.acquire(source.url);
+            if (!decision.allowed) {
+                report.error = decision.reason ?? 'Disallowed by robots.txt';
+                return finish();
+            }
+        }
+
+        let document: FetchedDocument;
+        try {
+            // A dry run is a diagnosis, not worth retrying (per-source overrides win, so cap both)
+            document = await this.parser.fetchDocument(
+                { ...source, retry: { ...source.retry, maxAttempts: 1 } },
+                timeoutMs,
+                { ...options, retry: { ...(options.retry ?? RetryPolicySchema.parse({})), maxAttempts: 1 } }
+            );
+        } catch (error) {
+            report.timing.fetchMs = Date.now() - startTime;
+            report.error = error instanceof Error ? error.message : 'Unknown error';
+            if (error instanceof FetchError && error.status !== undefined) {
+                report.http = {
+                    url: source.url,
+                    status: error.status,
+                    headers: {},
+                    contentType: null,
+                    length: 0,
+                    attempts: error.attempts ?? 1,
+                };
+            }
+            return finish();
+        }
+
+        report.timing.fetchMs = document.responseTimeMs;
+        report.http = {
+            url: this.redactUrl(document.url, source),
+            status: document.status,
+            headers: this.visibleHeaders(document.headers),
+            contentType: document.contentType ?? null,
+            length: document.content.length,
+            attempts: document.attempts,
+        };
+
+        const parseStart = Date.now();
+        let result: ParseResult;
+        try {
+            // Sources of other types are checked once their content is known to be HTML
+            result = await this.parser.parse(document.content, source, document.contentType, {
+                documentUrl: document.url,
+                robots: source.type === 'html' ? undefined : url => this.robots.acquire(url),
+            });
+        } catch (error) {
+            report.error = error instanceof Error ? error.message : 'Unknown parse error';
+            return finish();
+        } finally {
+            report.timing.parseMs = Date.now() - parseStart;
+        }
+
+        const warnings = result.warnings ?? [];
+        report.detection = result.detection ?? null;
+        report.adapter = result.adapter ?? null;
+        report.error = result.error ?? null;
+        report.errorKind = result.errorKind ?? null;
+        report.skipped = warnings.filter(warning => warning.kind === 'item-skipped');
+        report.warnings = warnings.filter(warning => warning.kind !== 'item-skipped');
+        report.items = { parsed: result.items.length, skipped: report.skipped.length };
+        report.emptyFields = this.countEmptyFields(result.items);
+        report.sample = result.items.slice(0, SAMPLE_SIZE).map(item => this.toSample(item));
+        report.ok = result.success && result.items.length > 0;
+
+        logger.info(`Tested ${source.url}: ${report.items.parsed} parsed, ${report.items.skipped} skipped`);
+        return finish();
+    }
+
+    /**
+     * Hide an API key sent as a query parameter
+     */
+    private redactUrl(url: string, source: SourceConfig): string {
+        const auth = source.auth;
+        if (auth?.type !== 'apiKey' || auth.in !== 'query') return url;
+        const parsed = new URL(url);
+        if (!parsed.searchParams.has(auth.name)) return url;
+        parsed.searchParams.set(auth.name, 'REDACTED');
+        return parsed.href;
+    }
+
+        private visibleHeaders(headers: Headers): Record<string, string> {
+        const visible: Record<string, string> = {};
+        headers.forEach((value, name) => {
+            if (!HIDDEN_HEADERS.has(name.toLowerCase())) visible[name] = value;
+        });
+        return visible;
+    }
+
+    /**
+     * Count, per field, the items where it is missing or empty
+     * ("Untitled" is the adapters' placeholder, so it counts as empty)
+     */
+    private countEmptyFields(items: NewsItem[]): Record<string, number> {
+        const empty: Record<string, number> = {};
+        for (const field of CHECKED_FIELDS) {
+            const count = items.filter(item => {
+                const value = item[field];
+                if (field === 'title' && value === 'Untitled') return true;
+                if (Array.isArray(value)) return value.length === 0;
+                return value === undefined || value === null || value === '';
+            }).length;
+            if (count > 0) empty[field] = count;
+        }
+        return empty;
+    }
+
+    private toSample(item: NewsItem): NewsItem {
+        const sample = withContentFormat(item, 'text');
+        return {
+            ...sample,
+            description: this.truncate(sample.description),
+            content: this.truncate(sample.content),
+        };
+    }
+
+    private truncate(text?: string): string | undefined {
+        if (!text || text.length <= SAMPLE_TEXT_LENGTH) return text;
+        return `${text.slice(0, SAMPLE_TEXT_LENGTH).trimEnd()}…`;
+    }
+}
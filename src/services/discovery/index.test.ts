@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FeedDiscoveryService } from './index.js';
+import { FetchLimiter, UniversalParser } from '../parser/index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+const homepage = `<!doctype html><html><head>
+    <link rel="alternate" type="application/rss+xml" title="Main Feed" href="/news/rss">
+    <link rel="stylesheet" href="/style.css">
+</head><body><h1>Example</h1></body></html>`;
+
+const rss = `<rss version="2.0"><channel><title>Example News</title>
+    <item><title>One</title><link>https://example.com/1</link></item>
+    <item><title>Two</title><link>https://example.com/2</link></item>
+</channel></rss>`;
+
+const atom = `<feed xmlns="http://www.w3.org/2005/Atom"><title>Example Atom</title>
+    <entry><title>A</title><link href="https://example.com/a"/><id>a</id></entry>
+</feed>`;
+
+describe('FeedDiscoveryService', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should return advertised and common-path feeds as source configs', async () => {
+        const routes: Record<string, { body: string; type: string }> = {
+            'https://example.com/': { body: homepage, type: 'text/html' },
+            'https://example.com/news/rss': { body: rss, type: 'application/rss+xml' },
+            'https://example.com/atom.xml': { body: atom, type: 'application/atom+xml' },
+            'https://example.com/feed': { body: homepage, type: 'text/html' },
+        };
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+            const route = routes[url];
+            return route
+                ? new Response(route.body, { status: 200, headers: { 'content-type': route.type } })
+                : new Response('not found', { status: 404 });
+        }));
+
+        const limiter = new FetchLimiter({ maxConcurrentFetches: 10, perHost: { requestsPerSecond: 1000, burst: 100 }, hosts: {} });
+        const discovery = new FeedDiscoveryService(new UniversalParser(limiter));
+        const result = await discovery.discover('https://example.com/');
+
+        expect(result.feeds).toHaveLength(2);
+        expect(result.feeds[0]).toMatchObject({
+            title: 'Example News',
+            itemCount: 2,
+            discoveredVia: 'link',
+            source: { id: 'example-com-news-rss', url: 'https://example.com/news/rss', type: 'rss', enabled: true },
+        });
+        expect(result.feeds[1].source.type).toBe('atom');
+        expect(result.feeds[1].discoveredVia).toBe('common-path');
+    });
+});
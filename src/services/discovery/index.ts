@@ -0,0 +1,225 @@
+import { parse as parseHTML } from 'node-html-parser';
+import { RetryPolicySchema, SourceConfig, SourceConfigSchema } from '../../config/schema.js';
+import { ContentType, FetchOptions, UniversalParser } from '../parser/index.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('FeedDiscovery');
+
+/**
+ * Paths commonly used for site feeds
+ */
+const COMMON_FEED_PATHS = [
+    '/feed',
+    '/feed/',
+    '/rss',
+    '/rss.xml',
+    '/atom.xml',
+    '/feed.xml',
+    '/index.xml',
+    '/feed.json',
+];
+
+/**
+ * MIME types advertised by <link rel="alternate"> for feeds
+ */
+const FEED_LINK_TYPES = [
+    'application/rss+xml',
+    'application/atom+xml',
+    'application/feed+json',
+    'application/json',
+    'application/rdf+xml',
+    'application/xml',
+    'text/xml',
+];
+
+/**
+ * A candidate URL and how it was found
+ */
+interface FeedCandidate {
+    url: string;
+    title?: string;
+    via: 'link' | 'common-path';
+}
+
+/**
+ * A verified feed, ready to paste into config
+ */
+export interface DiscoveredFeed {
+    source: SourceConfig;
+    title: string | null;
+    itemCount: number;
+    discoveredVia: 'link' | 'common-path';
+}
+
+/**
+ * Discovery report for a site
+ */
+export interface DiscoveryResult {
+    site: string;
+    feeds: DiscoveredFeed[];
+    checked: number;
+}
+
+/**
+ * Feed Discovery Service: Find the feeds a website advertises
+ *
+ * Features:
+ * - Reads <link rel="alternate"> tags for RSS, Atom and JSON Feed
+ * - Probes common feed paths (/feed, /rss.xml, /atom.xml, ...)
+ * - Verifies every candidate through UniversalParser
+ * - Returns ready-to-use SourceConfig entries
+ */
+export class FeedDiscoveryService {
+    constructor(private readonly parser: UniversalParser) { }
+
+    /**
+     * Discover feeds for a website URL
+     */
+    public async discover(
+        siteUrl: string,
+        timeoutMs: number = 10000,
+        options: FetchOptions = {}
+    ): Promise<DiscoveryResult> {
+        const site = new URL(siteUrl);
+        const candidates = new Map<string, FeedCandidate>();
+
+        // 1. Advertised feeds from the page itself
+        try {
+            const page = await this.parser.fetchDocument(this.adHocSource(site.href), timeoutMs, options);
+            const type = this.parser.detectContentType(page.content, page.contentType);
+
+            if (type === ContentType.RSS || type === ContentType.ATOM || type === ContentType.JSON_FEED) {
+                // The URL is already a feed
+                candidates.set(page.url, { url: page.url, via: 'link' });
+            } else {
+                for (const candidate of this.extractLinkCandidates(page.content, page.url)) {
+                    if (!candidates.has(candidate.url)) candidates.set(candidate.url, candidate);
+                }
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            logger.warn(`Could not load ${site.href} for discovery: ${message}`);
+        }
+
+        // 2. Common paths on the same origin
+        for (const path of COMMON_FEED_PATHS) {
+            const url = new URL(path, site.origin).href;
+            if (!candidates.has(url)) candidates.set(url, { url, via: 'common-path' });
+        }
+
+        // 3. Verify candidates
+        const results = await Promise.allSettled(
+            [...candidates.values()].map(candidate => this.verify(candidate, timeoutMs, options))
+        );
+
+        const feeds: DiscoveredFeed[] = [];
+        const seenFeeds = new Set<string>();
+
+        for (const result of results) {
+            if (result.status !== 'fulfilled' || !result.value) continue;
+            // Different paths often redirect to the same feed
+            const key = result.value.source.url;
+            if (seenFeeds.has(key)) continue;
+            seenFeeds.add(key);
+            feeds.push(result.value);
+        }
+
+        // Advertised feeds first
+        feeds.sort((a, b) => (a.discoveredVia === b.discoveredVia ? 0 : a.discoveredVia === 'link' ? -1 : 1));
+
+        logger.info(`Discovered ${feeds.length} feeds on ${site.host} (${candidates.size} candidates checked)`);
+
+        return { site: site.href, feeds, checked: candidates.size };
+    }
+
+    /**
+     * Pull feed URLs out of <link rel="alternate"> tags
+     */
+    private extractLinkCandidates(html: string, baseUrl: string): FeedCandidate[] {
+        const root = parseHTML(html);
+        const candidates: FeedCandidate[] = [];
+
+        for (const link of root.querySelectorAll('link[href]')) {
+            const rel = (link.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+            const type = (link.getAttribute('type') || '').toLowerCase().split(';')[0].trim();
+
+            if (!rel.includes('alternate') || !FEED_LINK_TYPES.includes(type)) continue;
+
+            try {
+                candidates.push({
+                    url: new URL(link.getAttribute('href')!, baseUrl).href,
+                    title: link.getAttribute('title') || undefined,
+                    via: 'link',
+                });
+            } catch {
+                // Ignore unparseable hrefs
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Fetch a candidate and keep it only if it parses as a feed
+     */
+    private async verify(
+        candidate: FeedCandidate,
+        timeoutMs: number,
+        options: FetchOptions
+    ): Promise<DiscoveredFeed | null> {
+        const probe = this.adHocSource(candidate.url);
+        // Probes are cheap checks, not worth retrying
+        const document = await this.parser.fetchDocument(probe, timeoutMs, {
+            ...options,
+            retry: { ...(options.retry ?? RetryPolicySchema.parse({})), maxAttempts: 1 },
+        });
+
+        const type = this.parser.detectContentType(document.content, document.contentType);
+        const isFeed = type === ContentType.RSS || type === ContentType.ATOM || type === ContentType.JSON_FEED ||
+            // Generic JSON only counts when the site advertised it
+            (type === ContentType.JSON && candidate.via === 'link');
+
+        if (!isFeed) return null;
+
+        const result = await this.parser.parse(document.content, probe, document.contentType, { documentUrl: document.url });
+        if (!result.success) return null;
+
+        const feedUrl = document.url;
+        const title = result.metadata?.title || candidate.title || null;
+
+        return {
+            source: SourceConfigSchema.parse({
+                id: this.slugify(feedUrl),
+                name: title || new URL(feedUrl).host,
+                url: feedUrl,
+                type: result.contentType === ContentType.UNKNOWN ? 'auto' : result.contentType,
+                enabled: true,
+            }),
+            title,
+            itemCount: result.items.length,
+            discoveredVia: candidate.via,
+        };
+    }
+
+    /**
+     * Throwaway source config used for discovery requests
+     */
+    private adHocSource(url: string): SourceConfig {
+        return SourceConfigSchema.parse({
+            id: `discover-${this.slugify(url)}`,
+            name: 'Feed discovery',
+            url,
+        });
+    }
+
+    /**
+     * Build a config-friendly ID from a URL
+     */
+    private slugify(url: string): string {
+        const { host, pathname } = new URL(url);
+        return `${host.replace(/^www\./, '')}${pathname}`
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+    }
+}
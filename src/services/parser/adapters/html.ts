@@ -1,13 +1,22 @@
 import { parse as parseHTML, HTMLElement } from 'node-html-parser';
 import { ContentAdapter, ContentType, NewsItem, ParseResult } from '../types.js';
+import { HtmlSelectors } from '../../../config/schema.js';
 import { createLogger } from '../../../utils/logger.js';
+import { toPublishedAt } from '../dates.js';
+import { canonicalUrlKey, createItemId } from '../ids.js';
+import { findDoctype, findRootElement } from '../sniff.js';
+import { collectItems } from '../warnings.js';
 
 const logger = createLogger('HTMLAdapter');
 
+/** Elements an HTML fragment (no <html> wrapper) typically starts with */
+const FRAGMENT_ROOTS = new Set(['head', 'body', 'div', 'main', 'section', 'article', 'header', 'nav', 'ul', 'table', 'p']);
+
 /**
  * HTML Scraper Adapter
  * 
- * Extracts news items from HTML pages using CSS selectors
+ * Extracts news items from HTML pages using CSS selectors.
+ * Per-field `selectors` override the built-in heuristics.
  */
 export class HTMLAdapter implements ContentAdapter {
     readonly supportedTypes = [ContentType.HTML];
@@ -28,6 +37,29 @@ export class HTMLAdapter implements ContentAdapter {
         );
     }
 
+    /**
+     * Score markup: an <html> root or HTML doctype (XHTML served as XML
+     * included), then fragments, then a bare <body> further in
+     */
+    detect(content: string, contentType?: string): number {
+        const trimmed = content.trimStart();
+        if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 0;
+
+        const servedAsHtml = contentType?.toLowerCase().includes('html') ?? false;
+        const root = findRootElement(content);
+        if (findDoctype(content) === 'html' || root?.localName === 'html') {
+            return servedAsHtml ? 1 : 0.95;
+        }
+        if (root && FRAGMENT_ROOTS.has(root.localName)) {
+            return servedAsHtml ? 0.8 : 0.5;
+        }
+        if (root) {
+            // Some other XML vocabulary
+            return 0;
+        }
+        return /<body[\s>]/i.test(content.slice(0, 8192)) ? 0.4 : 0;
+    }
+
     /**
      * Parse HTML content
      */
@@ -52,16 +84,27 @@ export class HTMLAdapter implements ContentAdapter {
                 };
             }
 
+            // Relative links resolve against <base href> when the page declares one, else the document URL
+            const baseHref = root.querySelector('base[href]')?.getAttribute('href');
+            const baseUrl = baseHref ? this.resolveUrl(baseHref, options?.baseUrl as string) || undefined : undefined;
+            const itemOptions = baseUrl ? { ...options, baseUrl } : options;
+
+            // The page's rel=canonical identifies items that link to the page itself (AMP or mobile copies)
+            const documentUrl = options?.baseUrl as string | undefined;
+            const canonicalHref = root.querySelector('link[rel="canonical"]')?.getAttribute('href');
+            const page = documentUrl && canonicalHref
+                ? { url: documentUrl, canonicalUrl: this.resolveUrl(canonicalHref, documentUrl) }
+                : undefined;
+
             const elements = root.querySelectorAll(selector);
-            const items: NewsItem[] = [];
-
-            for (const element of elements) {
-                try {
-                    const newsItem = this.extractItem(element, sourceId, sourceName, options);
-                    if (newsItem) items.push(newsItem);
-                } catch (e) {
-                    logger.warn(`Skipping malformed HTML item: ${e}`);
-                }
+            const { items, warnings } = collectItems(
+                elements,
+                element => this.extractItem(element, sourceId, sourceName, itemOptions, page),
+                'HTML item',
+                'no title or link'
+            );
+            if (elements.length === 0) {
+                warnings.push({ kind: 'document', message: `Selector "${selector}" matched no elements` });
             }
 
             // Extract page metadata
@@ -73,6 +116,7 @@ export class HTMLAdapter implements ContentAdapter {
             return {
                 success: true,
                 items,
+                warnings,
                 contentType: ContentType.HTML,
                 metadata: {
                     title,
@@ -127,50 +171,68 @@ export class HTMLAdapter implements ContentAdapter {
         element: HTMLElement,
         sourceId: string,
         sourceName: string,
-        options?: Record<string, unknown>
+        options?: Record<string, unknown>,
+        page?: { url: string; canonicalUrl: string }
     ): NewsItem | null {
+        const selectors = options?.selectors as HtmlSelectors | undefined;
+        const fields = selectors?.fields ?? {};
+
         // Try to find link
         const linkEl = element.querySelector('a[href]');
-        const link = linkEl?.getAttribute('href') || '';
+        const link = fields.link
+            ? this.selectValue(element, fields.link) || ''
+            : linkEl?.getAttribute('href') || '';
 
         // Try to find title
-        const titleEl = element.querySelector('h1, h2, h3, h4, .title, [class*="title"]');
-        const title = titleEl?.text.trim() || linkEl?.text.trim() || '';
+        const title = fields.title
+            ? this.selectValue(element, fields.title) || ''
+            : element.querySelector('h1, h2, h3, h4, .title, [class*="title"]')?.text.trim() ||
+                linkEl?.text.trim() || '';
 
         if (!link && !title) return null;
 
-        // Generate ID
-        const id = this.hashString(link || title);
+        const resolvedLink = this.resolveUrl(link, options?.baseUrl as string);
+        const guid = fields.id ? this.selectValue(element, fields.id) : undefined;
+        const canonicalUrl = page && resolvedLink && canonicalUrlKey(resolvedLink) === canonicalUrlKey(page.url)
+            ? page.canonicalUrl
+            : undefined;
+        const id = createItemId(sourceId, { guid, canonicalUrl, link: resolvedLink, fallback: title });
 
         // Try to find description
-        const descEl = element.querySelector('p, .description, .summary, .excerpt, [class*="desc"]');
-        const description = descEl?.text.trim();
+        const description = fields.description
+            ? this.selectValue(element, fields.description)
+            : element.querySelector('p, .description, .summary, .excerpt, [class*="desc"]')?.text.trim();
 
         // Try to find image
-        const imgEl = element.querySelector('img[src]');
-        const imageUrl = imgEl?.getAttribute('src');
+        const imageUrl = fields.imageUrl
+            ? this.selectValue(element, fields.imageUrl)
+            : element.querySelector('img[src]')?.getAttribute('src');
 
         // Try to find date
-        const timeEl = element.querySelector('time[datetime]');
-        const dateStr = timeEl?.getAttribute('datetime') ||
-            element.querySelector('.date, .time, [class*="date"]')?.text;
-        const publishedAt = dateStr ? new Date(dateStr) : undefined;
+        const dateStr = fields.publishedAt
+            ? this.selectValue(element, fields.publishedAt)
+            : element.querySelector('time[datetime]')?.getAttribute('datetime') ||
+                element.querySelector('.date, .time, [class*="date"]')?.text;
 
         // Try to find author
-        const authorEl = element.querySelector('.author, [class*="author"], [rel="author"]');
-        const author = authorEl?.text.trim();
+        const author = fields.author
+            ? this.selectValue(element, fields.author)
+            : element.querySelector('.author, [class*="author"], [rel="author"]')?.text.trim();
 
         // Try to find categories
-        const tagEls = element.querySelectorAll('.tag, .category, [class*="tag"]');
-        const categories = tagEls.map(el => el.text.trim()).filter(Boolean);
+        const categories = fields.categories
+            ? this.selectValues(element, fields.categories)
+            : element.querySelectorAll('.tag, .category, [class*="tag"]').map(el => el.text.trim()).filter(Boolean);
 
         return {
             id,
+            guid,
             title: title || 'Untitled',
-            link: this.resolveUrl(link, options?.baseUrl as string),
+            link: resolvedLink,
             description,
+            content: fields.content ? this.selectValue(element, fields.content) : undefined,
             author,
-            publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+            ...toPublishedAt([dateStr?.trim()], selectors?.dateFormat ?? options?.dateFormat as string | undefined),
             categories,
             sourceId,
             sourceName,
@@ -178,6 +240,30 @@ export class HTMLAdapter implements ContentAdapter {
         };
     }
 
+    /**
+     * Evaluate a field selector ("css", "css@attr" or "@attr") against an item.
+     * The pseudo-attribute `@html` returns the matched element's inner HTML.
+     */
+    private selectValues(element: HTMLElement, spec: string): string[] {
+        const match = spec.match(/^(.*?)@([\w:-]+)$/);
+        const css = (match ? match[1] : spec).trim();
+        const attr = match?.[2];
+
+        const targets = css ? element.querySelectorAll(css) : [element];
+        return targets
+            .map(el => {
+                if (!attr) return el.text;
+                if (attr === 'html') return el.innerHTML;
+                return el.getAttribute(attr);
+            })
+            .map(value => value?.trim())
+            .filter((value): value is string => !!value);
+    }
+
+    private selectValue(element: HTMLElement, spec: string): string | undefined {
+        return this.selectValues(element, spec)[0];
+    }
+
     /**
      * Resolve relative URLs
      */
@@ -195,17 +281,4 @@ export class HTMLAdapter implements ContentAdapter {
         }
         return url;
     }
-
-    /**
-     * Simple hash for ID generation
-     */
-    private hashString(str: string): string {
-        let hash = 0;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash;
-        }
-        return `html-${Math.abs(hash)}`;
-    }
 }
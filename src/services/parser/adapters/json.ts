@@ -1,12 +1,29 @@
 import { ContentAdapter, ContentType, NewsItem, ParseResult } from '../types.js';
+import { JsonFieldMapping, JsonMapping, Pagination } from '../../../config/schema.js';
+import { getByPath, queryPath } from '../../../utils/object-path.js';
+import { toPublishedAt } from '../dates.js';
+import { createItemId } from '../ids.js';
+import { jsonErrorMessage, parseJSONBody } from '../sniff.js';
+import { collectItems } from '../warnings.js';
 import { createLogger } from '../../../utils/logger.js';
 
 const logger = createLogger('JSONAdapter');
 
+/** Keys that commonly hold the items array of an API response */
+const ARRAY_KEYS = ['items', 'data', 'entries', 'articles', 'posts', 'news', 'results'];
+
+/** Keys that mark an object as a news item */
+const ITEM_KEYS = ['title', 'headline', 'name', 'link', 'url', 'href', 'permalink'];
+
+/** Values that already carry a scheme and host */
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:\/\//i;
+
 /**
  * JSON Array Adapter
  * 
- * Handles JSON arrays of news items with flexible field mapping
+ * Handles JSON arrays of news items with flexible field mapping.
+ * A source `mapping` block can point at the items array and at each
+ * NewsItem field explicitly; unmapped fields fall back to key guessing.
  */
 export class JSONAdapter implements ContentAdapter {
     readonly supportedTypes = [ContentType.JSON];
@@ -25,6 +42,31 @@ export class JSONAdapter implements ContentAdapter {
         return trimmed.startsWith('[') || trimmed.startsWith('{');
     }
 
+    /**
+     * Score JSON by shape: arrays of item-like objects rank highest, error
+     * bodies lowest (claimed only so they fail with a clear message)
+     */
+    detect(content: string): number {
+        const parsed = parseJSONBody(content);
+        if (parsed === undefined) return 0;
+        if (jsonErrorMessage(parsed)) return 0.1;
+
+        if (Array.isArray(parsed)) {
+            return parsed.some(entry => this.looksLikeItem(entry)) ? 0.9 : 0.4;
+        }
+        if (!parsed || typeof parsed !== 'object') return 0.1;
+
+        const obj = parsed as Record<string, unknown>;
+        for (const key of ARRAY_KEYS) {
+            const value = obj[key];
+            if (Array.isArray(value) && value.some(entry => this.looksLikeItem(entry))) return 0.85;
+        }
+        if (Object.values(obj).some(value => Array.isArray(value) && value.some(entry => this.looksLikeItem(entry)))) {
+            return 0.6;
+        }
+        return this.looksLikeItem(obj) ? 0.5 : 0.2;
+    }
+
     /**
      * Parse JSON content
      */
@@ -36,17 +78,23 @@ export class JSONAdapter implements ContentAdapter {
     ): Promise<ParseResult> {
         try {
             const parsed = JSON.parse(content);
+            const mapping = options?.mapping as JsonMapping | undefined;
 
             // Handle array directly or nested in object
             let items: unknown[] = [];
             let metadata: Record<string, unknown> = {};
 
-            if (Array.isArray(parsed)) {
+            if (mapping?.items) {
+                const found = queryPath(parsed, mapping.items);
+                if (found.length === 0) {
+                    throw new Error(`Items path "${mapping.items}" matched nothing`);
+                }
+                items = found.length === 1 && Array.isArray(found[0]) ? found[0] : found;
+            } else if (Array.isArray(parsed)) {
                 items = parsed;
             } else if (typeof parsed === 'object' && parsed !== null) {
                 // Look for common array keys
-                const arrayKeys = ['items', 'data', 'entries', 'articles', 'posts', 'news', 'results'];
-                for (const key of arrayKeys) {
+                for (const key of ARRAY_KEYS) {
                     if (Array.isArray(parsed[key])) {
                         items = parsed[key];
                         metadata = { ...parsed };
@@ -56,26 +104,29 @@ export class JSONAdapter implements ContentAdapter {
                 }
 
                 if (items.length === 0) {
+                    // An API error is not a single item
+                    const apiError = jsonErrorMessage(parsed);
+                    if (apiError) {
+                        throw new Error(`API returned an error: ${apiError}`);
+                    }
                     // Maybe it's a single item
                     items = [parsed];
                 }
             }
 
-            const newsItems: NewsItem[] = [];
-
-            for (const item of items) {
-                try {
-                    const newsItem = this.mapToNewsItem(item, sourceId, sourceName, options);
-                    if (newsItem) newsItems.push(newsItem);
-                } catch (e) {
-                    logger.warn(`Skipping malformed JSON item: ${e}`);
-                }
-            }
+            const { items: newsItems, warnings } = collectItems(
+                items,
+                item => this.mapToNewsItem(item, sourceId, sourceName, options),
+                'JSON item',
+                'not an object, or no title or link'
+            );
 
             return {
                 success: true,
                 items: newsItems,
+                warnings,
                 contentType: ContentType.JSON,
+                pagination: this.extractPagination(parsed, options?.pagination as Pagination | undefined),
                 metadata: {
                     title: this.getString(metadata, ['title', 'name']),
                     description: this.getString(metadata, ['description', 'subtitle']),
@@ -94,6 +145,26 @@ export class JSONAdapter implements ContentAdapter {
         }
     }
 
+    /**
+     * Read the next cursor / next URL configured for the source
+     */
+    private extractPagination(
+        root: unknown,
+        pagination?: Pagination
+    ): ParseResult['pagination'] {
+        if (pagination?.type === 'cursor') {
+            const cursor = getByPath(root, pagination.cursorPath);
+            return cursor !== undefined && cursor !== null && cursor !== ''
+                ? { nextCursor: String(cursor) }
+                : undefined;
+        }
+        if (pagination?.type === 'nextUrl') {
+            const url = getByPath(root, pagination.nextUrlPath);
+            return typeof url === 'string' && url ? { nextUrl: url } : undefined;
+        }
+        return undefined;
+    }
+
     /**
      * Map a raw JSON object to NewsItem
      */
@@ -101,43 +172,114 @@ export class JSONAdapter implements ContentAdapter {
         item: unknown,
         sourceId: string,
         sourceName: string,
-        _options?: Record<string, unknown>
+        options?: Record<string, unknown>
     ): NewsItem | null {
         if (!item || typeof item !== 'object') return null;
 
         const obj = item as Record<string, unknown>;
+        const mapping = options?.mapping as JsonMapping | undefined;
+        const fields = mapping?.fields ?? {};
 
-        // Flexible field mapping
-        const link = this.getString(obj, ['link', 'url', 'href', 'permalink']);
-        const title = this.getString(obj, ['title', 'name', 'headline']);
+        // Explicit mapping first, then flexible field guessing
+        const link = this.mappedString(obj, fields.link) ??
+            this.getString(obj, ['link', 'url', 'href', 'permalink']);
+        const title = this.mappedString(obj, fields.title) ??
+            this.getString(obj, ['title', 'name', 'headline']);
 
         if (!link && !title) return null;
 
-        const id = this.getString(obj, ['id', 'guid', 'uuid']) ||
-            link ||
-            this.hashObject(obj);
+        const guid = this.mappedString(obj, fields.id) ??
+            this.getString(obj, ['id', 'guid', 'uuid']);
+        // Relative URLs resolve against mapping.baseUrl, else the document URL
+        const baseUrl = mapping?.baseUrl ?? options?.baseUrl as string | undefined;
+        const resolvedLink = this.resolveUrl(link || '', baseUrl);
+        const id = createItemId(sourceId, { guid, link: resolvedLink, fallback: JSON.stringify(obj) });
 
-        const publishedStr = this.getString(obj, [
-            'publishedAt', 'published_at', 'pubDate', 'date',
-            'created', 'createdAt', 'created_at', 'timestamp'
-        ]);
+        const publishedRaw = fields.publishedAt
+            ? this.mappedValue(obj, fields.publishedAt)
+            : this.getString(obj, [
+                'publishedAt', 'published_at', 'pubDate', 'date',
+                'created', 'createdAt', 'created_at', 'timestamp'
+            ]);
+
+        const imageUrl = this.mappedString(obj, fields.imageUrl) ??
+            this.getString(obj, ['image', 'imageUrl', 'thumbnail', 'cover', 'media']);
 
         return {
             id,
+            guid,
             title: title || 'Untitled',
-            link: link || '',
-            description: this.getString(obj, ['description', 'summary', 'excerpt', 'snippet']),
-            content: this.getString(obj, ['content', 'body', 'text', 'full_text']),
-            author: this.getString(obj, ['author', 'creator', 'by', 'writer']),
-            publishedAt: publishedStr ? new Date(publishedStr) : undefined,
-            categories: this.getArray(obj, ['categories', 'tags', 'topics', 'labels']),
+            link: resolvedLink,
+            description: this.mappedString(obj, fields.description) ??
+                this.getString(obj, ['description', 'summary', 'excerpt', 'snippet']),
+            content: this.mappedString(obj, fields.content) ??
+                this.getString(obj, ['content', 'body', 'text', 'full_text']),
+            author: this.mappedString(obj, fields.author) ??
+                this.getString(obj, ['author', 'creator', 'by', 'writer']),
+            ...toPublishedAt([publishedRaw], mapping?.dateFormat ?? options?.dateFormat as string | undefined),
+            categories: fields.categories
+                ? this.mappedArray(obj, fields.categories)
+                : this.getArray(obj, ['categories', 'tags', 'topics', 'labels']),
             sourceId,
             sourceName,
-            imageUrl: this.getString(obj, ['image', 'imageUrl', 'thumbnail', 'cover', 'media']),
+            imageUrl: imageUrl ? this.resolveUrl(imageUrl, baseUrl) : undefined,
             metadata: this.extractMetadata(obj),
         };
     }
 
+    /**
+     * Resolve a mapped field to its first raw value
+     */
+    private mappedValue(obj: Record<string, unknown>, field?: JsonFieldMapping): unknown {
+        if (!field) return undefined;
+        const path = typeof field === 'string' ? field : field.path;
+        const value = getByPath(obj, path);
+        if ((value === undefined || value === null) && typeof field !== 'string') {
+            return field.default;
+        }
+        return value;
+    }
+
+    /**
+     * Resolve a mapped field to a transformed string
+     */
+    private mappedString(obj: Record<string, unknown>, field?: JsonFieldMapping): string | undefined {
+        const value = this.mappedValue(obj, field);
+        if (value === undefined || value === null) return undefined;
+
+        let str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        if (typeof field === 'object') {
+            if (field.stripHtml) str = str.replace(/<[^>]*>/g, '').trim();
+            // A prefix is usually a base URL, so absolute URLs keep theirs
+            const prefix = ABSOLUTE_URL.test(str) ? '' : field.prefix ?? '';
+            str = `${prefix}${str}${field.suffix ?? ''}`;
+        }
+        return str;
+    }
+
+    /**
+     * Resolve a mapped field to a list of strings (wildcards allowed)
+     */
+    private mappedArray(obj: Record<string, unknown>, field: JsonFieldMapping): string[] {
+        const path = typeof field === 'string' ? field : field.path;
+        return queryPath(obj, path)
+            .flatMap(v => (Array.isArray(v) ? v : [v]))
+            .filter(v => v !== undefined && v !== null && v !== '')
+            .map(v => String(v));
+    }
+
+    /**
+     * Resolve relative URLs against a base
+     */
+    private resolveUrl(url: string, baseUrl?: string): string {
+        if (!url || !baseUrl || /^https?:\/\//.test(url)) return url;
+        try {
+            return new URL(url, baseUrl).href;
+        } catch {
+            return url;
+        }
+    }
+
     /**
      * Get string from object with fallback keys
      */
@@ -155,6 +297,14 @@ export class JSONAdapter implements ContentAdapter {
         return undefined;
     }
 
+    /**
+     * Object with a title- or link-like key
+     */
+    private looksLikeItem(value: unknown): boolean {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+        return ITEM_KEYS.some(key => key in value);
+    }
+
     /**
      * Get array from object with fallback keys
      */
@@ -188,18 +338,4 @@ export class JSONAdapter implements ContentAdapter {
         }
         return metadata;
     }
-
-    /**
-     * Simple hash for object-based ID
-     */
-    private hashObject(obj: Record<string, unknown>): string {
-        const str = JSON.stringify(obj);
-        let hash = 0;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash;
-        }
-        return `json-${Math.abs(hash)}`;
-    }
 }
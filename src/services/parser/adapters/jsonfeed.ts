@@ -0,0 +1,221 @@
+import { ContentAdapter, ContentType, MediaEnclosure, NewsItem, ParseResult } from '../types.js';
+import { inferMediaType, parseNumber } from '../media.js';
+import { parseDate } from '../dates.js';
+import { createItemId } from '../ids.js';
+import { parseJSONBody } from '../sniff.js';
+import { collectItems } from '../warnings.js';
+import { createLogger } from '../../../utils/logger.js';
+
+const logger = createLogger('JSONFeedAdapter');
+
+/** Every JSON Feed version URL starts with this */
+const VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+/**
+ * JSON Feed 1.0 / 1.1 Adapter
+ *
+ * Maps the full JSON Feed spec (https://jsonfeed.org/version/1.1) to NewsItem
+ */
+export class JSONFeedAdapter implements ContentAdapter {
+    readonly supportedTypes = [ContentType.JSON_FEED];
+
+    /**
+     * Check if content is a JSON Feed document
+     */
+    canParse(content: string, contentType?: string): boolean {
+        if (contentType?.toLowerCase().includes('application/feed+json')) {
+            return true;
+        }
+
+        const trimmed = content.trim();
+        return trimmed.startsWith('{') && /"version"\s*:\s*"https?:\/\/jsonfeed\.org\/version\//.test(trimmed);
+    }
+
+    /**
+     * A JSON object carrying a JSON Feed version URL
+     */
+    detect(content: string): number {
+        const parsed = parseJSONBody(content);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return 0;
+
+        const feed = parsed as Record<string, unknown>;
+        const version = this.getString(feed.version);
+        if (!version?.replace(/^http:/, 'https:').startsWith(VERSION_PREFIX)) return 0;
+        return Array.isArray(feed.items) ? 1 : 0.9;
+    }
+
+    /**
+     * Parse JSON Feed content
+     */
+    async parse(
+        content: string,
+        sourceId: string,
+        sourceName: string
+    ): Promise<ParseResult> {
+        try {
+            const feed = JSON.parse(content) as Record<string, unknown>;
+
+            const version = this.getString(feed.version);
+            if (!version?.replace(/^http:/, 'https:').startsWith(VERSION_PREFIX)) {
+                throw new Error('Missing JSON Feed version');
+            }
+
+            const rawItems = Array.isArray(feed.items) ? feed.items : [];
+            const { items, warnings } = collectItems(
+                rawItems,
+                item => this.mapItem(item, feed, sourceId, sourceName),
+                'JSON Feed item',
+                'not an object, or no id'
+            );
+
+            const nextUrl = this.getString(feed.next_url);
+
+            return {
+                success: true,
+                items,
+                warnings,
+                contentType: ContentType.JSON_FEED,
+                pagination: nextUrl ? { nextUrl } : undefined,
+                metadata: {
+                    title: this.getString(feed.title),
+                    description: this.getString(feed.description),
+                    link: this.getString(feed.home_page_url),
+                    feedUrl: this.getString(feed.feed_url),
+                    icon: this.getString(feed.icon),
+                    favicon: this.getString(feed.favicon),
+                    language: this.getString(feed.language),
+                    authors: this.getAuthors(feed),
+                },
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown parse error';
+            logger.error(`JSON Feed parse error: ${message}`);
+            return {
+                success: false,
+                items: [],
+                contentType: ContentType.JSON_FEED,
+                error: message,
+            };
+        }
+    }
+
+    /**
+     * Map a JSON Feed item to NewsItem
+     */
+    private mapItem(
+        item: unknown,
+        feed: Record<string, unknown>,
+        sourceId: string,
+        sourceName: string
+    ): NewsItem | null {
+        if (!item || typeof item !== 'object') return null;
+
+        const obj = item as Record<string, unknown>;
+        const guid = this.getString(obj.id);
+        // id is required by the spec
+        if (!guid) return null;
+
+        const url = this.getString(obj.url);
+        const externalUrl = this.getString(obj.external_url);
+        const id = createItemId(sourceId, { guid, link: url || externalUrl });
+        const contentHtml = this.getString(obj.content_html);
+        const contentText = this.getString(obj.content_text);
+
+        // Title is optional (microblog posts); fall back to a text snippet
+        const title = this.getString(obj.title) ||
+            (contentText ? this.truncate(contentText, 80) : undefined) ||
+            'Untitled';
+
+        // Item authors override feed authors
+        const authors = this.getAuthors(obj) ?? this.getAuthors(feed);
+
+        const metadata: Record<string, unknown> = {};
+        if (externalUrl) metadata.externalUrl = externalUrl;
+        if (contentHtml && contentText) metadata.contentText = contentText;
+        if (obj.date_modified) metadata.dateModified = this.parseDate(obj.date_modified);
+        if (obj.banner_image) metadata.bannerImage = obj.banner_image;
+        if (obj.language) metadata.language = obj.language;
+        if (Array.isArray(obj.attachments)) metadata.attachments = obj.attachments;
+        if (authors && authors.length > 1) metadata.authors = authors;
+
+        // Extensions are keys starting with an underscore
+        for (const [key, value] of Object.entries(obj)) {
+            if (key.startsWith('_')) metadata[key] = value;
+        }
+
+        return {
+            id,
+            guid,
+            title,
+            link: url || externalUrl || '',
+            description: this.getString(obj.summary),
+            content: contentHtml || contentText,
+            author: authors?.map(a => a.name).filter(Boolean).join(', ') || undefined,
+            publishedAt: this.parseDate(obj.date_published) || this.parseDate(obj.date_modified),
+            categories: Array.isArray(obj.tags) ? obj.tags.map(t => String(t)) : [],
+            sourceId,
+            sourceName,
+            imageUrl: this.getString(obj.image) || this.getString(obj.banner_image),
+            enclosures: this.getAttachments(obj),
+            metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        };
+    }
+
+    /**
+     * Read authors (1.1 `authors[]`, falling back to 1.0 `author`)
+     */
+    private getAuthors(obj: Record<string, unknown>): Array<{ name?: string; url?: string; avatar?: string }> | undefined {
+        const raw = Array.isArray(obj.authors)
+            ? obj.authors
+            : obj.author ? [obj.author] : [];
+
+        const authors = raw
+            .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object')
+            .map(a => ({
+                name: this.getString(a.name),
+                url: this.getString(a.url),
+                avatar: this.getString(a.avatar),
+            }));
+
+        return authors.length > 0 ? authors : undefined;
+    }
+
+    /**
+     * Map attachments (podcast episodes, etc.) to enclosures
+     */
+    private getAttachments(obj: Record<string, unknown>): MediaEnclosure[] | undefined {
+        if (!Array.isArray(obj.attachments)) return undefined;
+
+        const enclosures = obj.attachments
+            .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object' && !!this.getString(a.url))
+            .map(a => {
+                const url = this.getString(a.url)!;
+                const mimeType = this.getString(a.mime_type);
+                return {
+                    url,
+                    mimeType,
+                    medium: inferMediaType(mimeType, undefined, url),
+                    length: parseNumber(a.size_in_bytes),
+                    duration: parseNumber(a.duration_in_seconds),
+                    title: this.getString(a.title),
+                };
+            });
+
+        return enclosures.length > 0 ? enclosures : undefined;
+    }
+
+    private getString(value: unknown): string | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+        return typeof value === 'string' ? value : String(value);
+    }
+
+    private parseDate(value: unknown): Date | undefined {
+        // The spec requires RFC 3339
+        return parseDate(this.getString(value), 'iso');
+    }
+
+    private truncate(text: string, max: number): string {
+        const clean = text.replace(/\s+/g, ' ').trim();
+        return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+    }
+}
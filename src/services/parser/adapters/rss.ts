@@ -1,28 +1,42 @@
-import { XMLParser } from 'fast-xml-parser';
-import { ContentAdapter, ContentType, NewsItem, ParseResult } from '../types.js';
+import { X2jOptions } from 'fast-xml-parser';
+import { ContentAdapter, ContentType, Detection, MediaEnclosure, NewsItem, ParseResult } from '../types.js';
+import { dedupeEnclosures, inferMediaType, parseDuration, parseNumber } from '../media.js';
+import { parseDate, toPublishedAt } from '../dates.js';
+import { createItemId } from '../ids.js';
+import { collectItems } from '../warnings.js';
+import { findRootElement } from '../sniff.js';
+import { SafeXmlParser, XmlLimitError } from '../xml.js';
 import { createLogger } from '../../../utils/logger.js';
 
 const logger = createLogger('RSSAdapter');
 
+/**
+ * Top-level shapes of a parsed feed document
+ */
+interface ParsedFeed extends Record<string, unknown> {
+    rss?: { channel?: Record<string, unknown> };
+    feed?: Record<string, unknown>;
+    channel?: Record<string, unknown>;
+}
+
 /**
  * RSS/Atom Feed Adapter
  * 
- * Handles both RSS 2.0 and Atom feed formats
+ * Handles RSS 2.0, RSS 1.0 (RDF) and Atom feed formats, including
+ * enclosures, Media RSS and iTunes podcast tags
  */
 export class RSSAdapter implements ContentAdapter {
     readonly supportedTypes = [ContentType.RSS, ContentType.ATOM];
 
-    private parser: XMLParser;
+    private readonly options: X2jOptions = {
+        ignoreAttributes: false,
+        attributeNamePrefix: '@_',
+        textNodeName: '#text',
+        parseTagValue: true,
+        trimValues: true,
+    };
 
-    constructor() {
-        this.parser = new XMLParser({
-            ignoreAttributes: false,
-            attributeNamePrefix: '@_',
-            textNodeName: '#text',
-            parseTagValue: true,
-            trimValues: true,
-        });
-    }
+    constructor(private readonly xml: SafeXmlParser = new SafeXmlParser()) { }
 
     /**
      * Check if content looks like RSS/Atom
@@ -42,29 +56,61 @@ export class RSSAdapter implements ContentAdapter {
             trimmed.startsWith('<?xml') ||
             trimmed.includes('<rss') ||
             trimmed.includes('<feed') ||
+            trimmed.includes('<rdf:RDF') ||
             trimmed.includes('<channel>')
         );
     }
 
+    /**
+     * Score the document root: <rss>, Atom <feed>, RDF with RSS 1.0 items
+     */
+    detect(content: string): Detection | number {
+        const root = findRootElement(content);
+        if (!root) return 0;
+
+        switch (root.localName) {
+            case 'rss':
+                return { type: ContentType.RSS, confidence: 0.95 };
+            case 'feed':
+                return {
+                    type: ContentType.ATOM,
+                    confidence: root.tag.includes('http://www.w3.org/2005/Atom') ? 0.95 : 0.7,
+                };
+            case 'rdf': {
+                const hasItems = content.includes('http://purl.org/rss/1.0/') || /<(\w+:)?item[\s>]/.test(content);
+                return { type: ContentType.RSS, confidence: hasItems ? 0.9 : 0.3 };
+            }
+            case 'channel':
+                return { type: ContentType.RSS, confidence: 0.6 };
+            default:
+                return 0;
+        }
+    }
+
     /**
      * Parse RSS/Atom feed
      */
     async parse(
         content: string,
         sourceId: string,
-        sourceName: string
+        sourceName: string,
+        options?: Record<string, unknown>
     ): Promise<ParseResult> {
         try {
-            const parsed = this.parser.parse(content);
+            const parsed = await this.xml.parse<ParsedFeed>(content, this.options);
+            const rdf = this.getRDFRoot(parsed);
+            const dateFormat = options?.dateFormat as string | undefined;
 
             // Detect format and extract items
             if (parsed.rss?.channel) {
-                return this.parseRSS(parsed.rss.channel, sourceId, sourceName);
+                return this.parseRSS(parsed.rss.channel, sourceId, sourceName, dateFormat);
             } else if (parsed.feed) {
-                return this.parseAtom(parsed.feed, sourceId, sourceName);
+                return this.parseAtom(parsed.feed, sourceId, sourceName, dateFormat);
+            } else if (rdf) {
+                return this.parseRDF(rdf, sourceId, sourceName, dateFormat);
             } else if (parsed.channel) {
                 // Some feeds have channel at root
-                return this.parseRSS(parsed.channel, sourceId, sourceName);
+                return this.parseRSS(parsed.channel, sourceId, sourceName, dateFormat);
             }
 
             return {
@@ -81,6 +127,7 @@ export class RSSAdapter implements ContentAdapter {
                 items: [],
                 contentType: ContentType.RSS,
                 error: message,
+                errorKind: error instanceof XmlLimitError ? 'parse-limit' : undefined,
             };
         }
     }
@@ -91,24 +138,25 @@ export class RSSAdapter implements ContentAdapter {
     private parseRSS(
         channel: Record<string, unknown>,
         sourceId: string,
-        sourceName: string
+        sourceName: string,
+        dateFormat?: string
     ): ParseResult {
         const rawItems = this.ensureArray(channel.item);
-        const items: NewsItem[] = [];
-
-        for (const item of rawItems) {
-            try {
-                const newsItem = this.parseRSSItem(item, sourceId, sourceName);
-                if (newsItem) items.push(newsItem);
-            } catch (e) {
-                logger.warn(`Skipping malformed RSS item: ${e}`);
-            }
-        }
+        const { items, warnings } = collectItems(
+            rawItems,
+            item => this.parseRSSItem(item, sourceId, sourceName, dateFormat),
+            'RSS item',
+            'no title or link'
+        );
+
+        const nextUrl = this.getPagingLink(channel['atom:link']);
 
         return {
             success: true,
             items,
+            warnings,
             contentType: ContentType.RSS,
+            pagination: nextUrl ? { nextUrl } : undefined,
             metadata: {
                 title: this.getString(channel.title),
                 description: this.getString(channel.description),
@@ -118,30 +166,65 @@ export class RSSAdapter implements ContentAdapter {
         };
     }
 
+    /**
+     * Parse RSS 1.0 (RDF) format
+     *
+     * Items are siblings of <channel> under <rdf:RDF>, not children of it.
+     */
+    private parseRDF(
+        rdf: Record<string, unknown>,
+        sourceId: string,
+        sourceName: string,
+        dateFormat?: string
+    ): ParseResult {
+        const channel = this.ensureArray(rdf.channel)[0] ?? {};
+        const rawItems = this.ensureArray(rdf.item);
+        const { items, warnings } = collectItems(
+            rawItems,
+            item => this.parseRDFItem(item, sourceId, sourceName, dateFormat),
+            'RDF item',
+            'no title or link'
+        );
+
+        return {
+            success: true,
+            items,
+            warnings,
+            contentType: ContentType.RSS,
+            metadata: {
+                title: this.getString(channel.title),
+                description: this.getString(channel.description),
+                link: this.getString(channel.link),
+                lastBuildDate: this.parseDate(channel['dc:date']),
+            },
+        };
+    }
+
     /**
      * Parse Atom format
      */
     private parseAtom(
         feed: Record<string, unknown>,
         sourceId: string,
-        sourceName: string
+        sourceName: string,
+        dateFormat?: string
     ): ParseResult {
         const rawItems = this.ensureArray(feed.entry);
-        const items: NewsItem[] = [];
-
-        for (const entry of rawItems) {
-            try {
-                const newsItem = this.parseAtomEntry(entry, sourceId, sourceName);
-                if (newsItem) items.push(newsItem);
-            } catch (e) {
-                logger.warn(`Skipping malformed Atom entry: ${e}`);
-            }
-        }
+        const { items, warnings } = collectItems(
+            rawItems,
+            entry => this.parseAtomEntry(entry, sourceId, sourceName, dateFormat),
+            'Atom entry',
+            'no title or link'
+        );
+
+        const nextUrl = this.getPagingLink(feed.link);
 
         return {
             success: true,
             items,
+            warnings,
             contentType: ContentType.ATOM,
+            pagination: nextUrl ? { nextUrl } : undefined,
             metadata: {
                 title: this.getString(feed.title),
                 description: this.getString(feed.subtitle),
@@ -156,27 +239,72 @@ export class RSSAdapter implements ContentAdapter {
     private parseRSSItem(
         item: Record<string, unknown>,
         sourceId: string,
-        sourceName: string
+        sourceName: string,
+        dateFormat?: string
     ): NewsItem | null {
         const link = this.getString(item.link);
         const title = this.getString(item.title);
 
         if (!link && !title) return null;
 
-        const id = this.getString(item.guid) || link || this.hashString(title || '');
+        const guid = this.getString(item.guid);
+        const canonicalUrl = this.getCanonicalLink(item['atom:link']);
+        const id = createItemId(sourceId, { guid, canonicalUrl, link, fallback: title });
+        const enclosures = this.extractEnclosures(item);
+        const podcast = this.extractPodcastMetadata(item);
 
         return {
             id,
+            guid,
             title: title || 'Untitled',
             link: link || '',
             description: this.getString(item.description),
             content: this.getString(item['content:encoded']),
-            author: this.getString(item.author) || this.getString(item['dc:creator']),
-            publishedAt: this.parseDate(item.pubDate),
-            categories: this.extractCategories(item.category),
+            author: this.getString(item.author) || this.getString(item['dc:creator']) ||
+                this.getString(item['itunes:author']),
+            ...toPublishedAt([this.getString(item.pubDate), this.getString(item['dc:date'])], dateFormat),
+            categories: [
+                ...this.extractCategories(item.category),
+                ...this.extractCategories(item['dc:subject']),
+            ],
+            sourceId,
+            sourceName,
+            imageUrl: this.pickImage(item, enclosures),
+            enclosures: enclosures.length > 0 ? enclosures : undefined,
+            metadata: podcast,
+        };
+    }
+
+    /**
+     * Parse individual RSS 1.0 (RDF) item
+     */
+    private parseRDFItem(
+        item: Record<string, unknown>,
+        sourceId: string,
+        sourceName: string,
+        dateFormat?: string
+    ): NewsItem | null {
+        const link = this.getString(item.link);
+        const title = this.getString(item.title);
+
+        if (!link && !title) return null;
+
+        const guid = this.getString(item['@_rdf:about']);
+        const id = createItemId(sourceId, { guid, link, fallback: title });
+
+        return {
+            id,
+            guid,
+            title: title || 'Untitled',
+            link: link || this.getString(item['@_rdf:about']) || '',
+            description: this.getString(item.description),
+            content: this.getString(item['content:encoded']),
+            author: this.getString(item['dc:creator']),
+            ...toPublishedAt([this.getString(item['dc:date'])], dateFormat),
+            categories: this.extractCategories(item['dc:subject']),
             sourceId,
             sourceName,
-            imageUrl: this.extractRSSImage(item),
+            imageUrl: this.pickImage(item, this.extractEnclosures(item)),
         };
     }
 
@@ -186,30 +314,43 @@ export class RSSAdapter implements ContentAdapter {
     private parseAtomEntry(
         entry: Record<string, unknown>,
         sourceId: string,
-        sourceName: string
+        sourceName: string,
+        dateFormat?: string
     ): NewsItem | null {
         const link = this.getAtomLink(entry.link);
         const title = this.getString(entry.title);
 
         if (!link && !title) return null;
 
-        const id = this.getString(entry.id) || link || this.hashString(title || '');
+        const guid = this.getString(entry.id);
+        const canonicalUrl = this.getCanonicalLink(entry.link);
+        const id = createItemId(sourceId, { guid, canonicalUrl, link, fallback: title });
+        const enclosures = this.extractEnclosures(entry);
 
         return {
             id,
+            guid,
             title: title || 'Untitled',
             link: link || '',
             description: this.getString(entry.summary),
             content: this.getAtomContent(entry.content),
             author: this.getAtomAuthor(entry.author),
-            publishedAt: this.parseDate(entry.published) || this.parseDate(entry.updated),
+            ...toPublishedAt([this.getString(entry.published), this.getString(entry.updated)], dateFormat),
             categories: this.extractAtomCategories(entry.category),
             sourceId,
             sourceName,
+            imageUrl: this.pickImage(entry, enclosures),
+            enclosures: enclosures.length > 0 ? enclosures : undefined,
         };
     }
 
     // Helper methods
+    private getRDFRoot(parsed: Record<string, unknown>): Record<string, unknown> | undefined {
+        const key = Object.keys(parsed).find(k => k === 'rdf:RDF' || k === 'RDF' || k.endsWith(':RDF'));
+        const root = key ? parsed[key] : undefined;
+        return root && typeof root === 'object' ? root as Record<string, unknown> : undefined;
+    }
+
     private ensureArray(value: unknown): Record<string, unknown>[] {
         if (!value) return [];
         if (Array.isArray(value)) return value;
@@ -227,11 +368,7 @@ export class RSSAdapter implements ContentAdapter {
     }
 
     private parseDate(value: unknown): Date | undefined {
-        if (!value) return undefined;
-        const str = this.getString(value);
-        if (!str) return undefined;
-        const date = new Date(str);
-        return isNaN(date.getTime()) ? undefined : date;
+        return parseDate(this.getString(value));
     }
 
     private getAtomLink(links: unknown): string | undefined {
@@ -244,6 +381,24 @@ export class RSSAdapter implements ContentAdapter {
         return link ? this.getString(link['@_href']) : undefined;
     }
 
+    /**
+     * Find a <link rel="canonical"> (Atom) or <atom:link rel="canonical"> (RSS)
+     */
+    private getCanonicalLink(links: unknown): string | undefined {
+        const canonical = this.ensureArray(links).find(l => l['@_rel'] === 'canonical');
+        return canonical ? this.getString(canonical['@_href']) : undefined;
+    }
+
+    /**
+     * Find an RFC 5005 paging link (next page, or previous archive document)
+     */
+    private getPagingLink(links: unknown): string | undefined {
+        const linkArray = this.ensureArray(links);
+        const paging = linkArray.find(l => l['@_rel'] === 'next') ||
+            linkArray.find(l => l['@_rel'] === 'prev-archive');
+        return paging ? this.getString(paging['@_href']) : undefined;
+    }
+
     private getAtomContent(content: unknown): string | undefined {
         if (!content) return undefined;
         if (typeof content === 'string') return content;
@@ -276,27 +431,112 @@ export class RSSAdapter implements ContentAdapter {
             .filter((c): c is string => !!c);
     }
 
-    private extractRSSImage(item: Record<string, unknown>): string | undefined {
-        // Check enclosure
-        const enclosure = item.enclosure as Record<string, unknown> | undefined;
-        if (enclosure?.['@_type']?.toString().startsWith('image')) {
-            return this.getString(enclosure['@_url']);
+    /**
+     * Collect media from RSS <enclosure>, Atom rel="enclosure" links,
+     * Media RSS (media:content, media:group) and itunes:duration
+     */
+    private extractEnclosures(item: Record<string, unknown>): MediaEnclosure[] {
+        const enclosures: MediaEnclosure[] = [];
+
+        for (const enclosure of this.ensureArray(item.enclosure)) {
+            const url = this.getString(enclosure['@_url']);
+            if (!url) continue;
+            const mimeType = this.getString(enclosure['@_type']);
+            enclosures.push({
+                url,
+                mimeType,
+                medium: inferMediaType(mimeType, undefined, url),
+                length: parseNumber(enclosure['@_length']),
+            });
         }
-        // Check media:content
-        const media = item['media:content'] as Record<string, unknown> | undefined;
-        if (media) {
-            return this.getString(media['@_url']);
+
+        for (const link of this.ensureArray(item.link)) {
+            if (typeof link !== 'object' || link['@_rel'] !== 'enclosure') continue;
+            const url = this.getString(link['@_href']);
+            if (!url) continue;
+            const mimeType = this.getString(link['@_type']);
+            enclosures.push({
+                url,
+                mimeType,
+                medium: inferMediaType(mimeType, undefined, url),
+                length: parseNumber(link['@_length']),
+                title: this.getString(link['@_title']),
+            });
         }
-        return undefined;
+
+        // media:content may sit on the item or be grouped in media:group
+        for (const group of [item, ...this.ensureArray(item['media:group'])]) {
+            const groupThumbnail = this.getMediaThumbnail(group['media:thumbnail']);
+            const groupTitle = this.getString(group['media:title']);
+
+            for (const media of this.ensureArray(group['media:content'])) {
+                const url = this.getString(media['@_url']);
+                if (!url) continue;
+                const mimeType = this.getString(media['@_type']);
+                const medium = this.getString(media['@_medium']);
+                let mediaType = inferMediaType(mimeType, medium, url);
+                // News feeds often leave type and medium off photo media:content
+                if (mediaType === 'other' && !mimeType && !medium) mediaType = 'image';
+
+                enclosures.push({
+                    url,
+                    mimeType,
+                    medium: mediaType,
+                    length: parseNumber(media['@_fileSize']),
+                    duration: parseDuration(media['@_duration']),
+                    title: this.getString(media['media:title']) || groupTitle,
+                    thumbnailUrl: this.getMediaThumbnail(media['media:thumbnail']) || groupThumbnail,
+                    width: parseNumber(media['@_width']),
+                    height: parseNumber(media['@_height']),
+                });
+            }
+        }
+
+        const result = dedupeEnclosures(enclosures);
+
+        // itunes:duration describes the episode file
+        const duration = parseDuration(this.getString(item['itunes:duration']));
+        if (duration !== undefined) {
+            const episode = result.find(e => (e.medium === 'audio' || e.medium === 'video') && e.duration === undefined);
+            if (episode) episode.duration = duration;
+        }
+
+        return result;
+    }
+
+    /**
+     * Pick the item image: image enclosure, then thumbnails, then itunes:image
+     */
+    private pickImage(item: Record<string, unknown>, enclosures: MediaEnclosure[]): string | undefined {
+        return enclosures.find(e => e.medium === 'image')?.url ||
+            this.getMediaThumbnail(item['media:thumbnail']) ||
+            enclosures.find(e => e.thumbnailUrl)?.thumbnailUrl ||
+            this.getString(this.ensureArray(item['itunes:image'])[0]?.['@_href']);
     }
 
-    private hashString(str: string): string {
-        let hash = 0;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash;
+    private getMediaThumbnail(thumbnails: unknown): string | undefined {
+        const first = this.ensureArray(thumbnails)[0];
+        return first ? this.getString(first['@_url']) : undefined;
+    }
+
+    /**
+     * iTunes episode tags, kept in item metadata
+     */
+    private extractPodcastMetadata(item: Record<string, unknown>): Record<string, unknown> | undefined {
+        const metadata: Record<string, unknown> = {};
+        const episode = parseNumber(this.getString(item['itunes:episode']));
+        const season = parseNumber(this.getString(item['itunes:season']));
+        const episodeType = this.getString(item['itunes:episodeType']);
+        // parseTagValue turns "true"/"false" into booleans
+        const explicit = item['itunes:explicit'];
+
+        if (episode !== undefined) metadata.episode = episode;
+        if (season !== undefined) metadata.season = season;
+        if (episodeType) metadata.episodeType = episodeType;
+        if (explicit !== undefined && explicit !== '') {
+            metadata.explicit = ['yes', 'true', 'explicit'].includes(String(explicit).toLowerCase());
         }
-        return `hash-${Math.abs(hash)}`;
+
+        return Object.keys(metadata).length > 0 ? metadata : undefined;
     }
 }
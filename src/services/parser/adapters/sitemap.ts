@@ -0,0 +1,206 @@
+import { X2jOptions } from 'fast-xml-parser';
+import { ContentAdapter, ContentType, MediaEnclosure, NewsItem, ParseResult } from '../types.js';
+import { parseDate, toPublishedAt } from '../dates.js';
+import { createItemId } from '../ids.js';
+import { findRootElement } from '../sniff.js';
+import { collectItems } from '../warnings.js';
+import { SafeXmlParser, XmlLimitError } from '../xml.js';
+import { createLogger } from '../../../utils/logger.js';
+
+const logger = createLogger('SitemapAdapter');
+
+/**
+ * Top-level shapes of a parsed sitemap document
+ */
+interface ParsedSitemap {
+    sitemapindex?: Record<string, unknown>;
+    urlset?: Record<string, unknown>;
+}
+
+/**
+ * XML Sitemap Adapter
+ *
+ * Handles plain sitemaps (<urlset> with lastmod), Google News sitemaps
+ * (news:news) and image sitemap extensions. Sitemap index files yield no
+ * items; their child sitemaps are returned in `sitemaps` for the parser
+ * to follow.
+ */
+export class SitemapAdapter implements ContentAdapter {
+    readonly supportedTypes = [ContentType.SITEMAP];
+
+    // Prefixes vary between publishers (news:, n:, ...), so match on local names
+    private readonly options: X2jOptions = {
+        ignoreAttributes: true,
+        removeNSPrefix: true,
+        parseTagValue: false,
+        trimValues: true,
+    };
+
+    constructor(private readonly xml: SafeXmlParser = new SafeXmlParser()) { }
+
+    /**
+     * Check if content looks like a sitemap or sitemap index
+     */
+    canParse(content: string): boolean {
+        return this.detect(content) > 0;
+    }
+
+    /**
+     * Sitemaps are recognised by their root element alone
+     */
+    detect(content: string): number {
+        const root = findRootElement(content)?.localName;
+        return root === 'urlset' || root === 'sitemapindex' ? 0.95 : 0;
+    }
+
+    /**
+     * Parse a sitemap or sitemap index
+     */
+    async parse(
+        content: string,
+        sourceId: string,
+        sourceName: string,
+        options?: Record<string, unknown>
+    ): Promise<ParseResult> {
+        try {
+            const parsed = await this.xml.parse<ParsedSitemap>(content, this.options);
+
+            if (parsed.sitemapindex) {
+                return this.parseIndex(parsed.sitemapindex);
+            }
+
+            if (parsed.urlset) {
+                const dateFormat = options?.dateFormat as string | undefined;
+                const { items, warnings } = collectItems(
+                    this.ensureArray(parsed.urlset.url),
+                    entry => this.parseUrl(entry, sourceId, sourceName, dateFormat),
+                    'Sitemap entry',
+                    'no <loc>'
+                );
+
+                return { success: true, items, warnings, contentType: ContentType.SITEMAP };
+            }
+
+            return {
+                success: false,
+                items: [],
+                contentType: ContentType.SITEMAP,
+                error: 'Unable to detect sitemap structure',
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown parse error';
+            logger.error(`Sitemap parse error: ${message}`);
+            return {
+                success: false,
+                items: [],
+                contentType: ContentType.SITEMAP,
+                error: message,
+                errorKind: error instanceof XmlLimitError ? 'parse-limit' : undefined,
+            };
+        }
+    }
+
+    /**
+     * List child sitemaps, most recently modified first
+     */
+    private parseIndex(index: Record<string, unknown>): ParseResult {
+        const sitemaps = this.ensureArray(index.sitemap)
+            .map(entry => ({
+                loc: this.getString(entry.loc),
+                lastmod: parseDate(this.getString(entry.lastmod))?.getTime() ?? 0,
+            }))
+            .filter((entry): entry is { loc: string; lastmod: number } => !!entry.loc)
+            .sort((a, b) => b.lastmod - a.lastmod)
+            .map(entry => entry.loc);
+
+        return {
+            success: true,
+            items: [],
+            contentType: ContentType.SITEMAP,
+            sitemaps,
+        };
+    }
+
+    /**
+     * Map a <url> entry to NewsItem
+     */
+    private parseUrl(
+        entry: Record<string, unknown>,
+        sourceId: string,
+        sourceName: string,
+        dateFormat?: string
+    ): NewsItem | null {
+        const link = this.getString(entry.loc);
+        if (!link) return null;
+
+        const news = this.ensureArray(entry.news)[0];
+        const publication = news ? this.ensureArray(news.publication)[0] : undefined;
+        const images = this.ensureArray(entry.image);
+
+        const enclosures: MediaEnclosure[] = images
+            .map(image => ({
+                url: this.getString(image.loc) ?? '',
+                medium: 'image' as const,
+                title: this.getString(image.title) ?? this.getString(image.caption),
+            }))
+            .filter(enclosure => enclosure.url);
+
+        const keywords = this.getString(news?.keywords)
+            ?.split(',')
+            .map(keyword => keyword.trim())
+            .filter(Boolean) ?? [];
+
+        const metadata: Record<string, unknown> = {};
+        const publicationName = this.getString(publication?.name);
+        const language = this.getString(publication?.language);
+        const genres = this.getString(news?.genres);
+        const lastmod = this.getString(entry.lastmod);
+        if (publicationName) metadata.publication = publicationName;
+        if (language) metadata.language = language;
+        if (genres) metadata.genres = genres.split(',').map(genre => genre.trim()).filter(Boolean);
+        if (news && lastmod) metadata.lastModified = parseDate(lastmod);
+
+        return {
+            id: createItemId(sourceId, { link }),
+            title: this.getString(news?.title) || this.titleFromUrl(link),
+            link,
+            // News sitemaps carry the publication date; plain ones only lastmod
+            ...toPublishedAt([this.getString(news?.publication_date), lastmod], dateFormat),
+            categories: keywords,
+            sourceId,
+            sourceName,
+            imageUrl: enclosures[0]?.url,
+            enclosures: enclosures.length > 0 ? enclosures : undefined,
+            metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        };
+    }
+
+    /**
+     * Readable title from the last path segment ("city-council-votes.html" -> "City council votes")
+     */
+    private titleFromUrl(link: string): string {
+        try {
+            const segments = new URL(link).pathname.split('/').filter(Boolean);
+            const slug = decodeURIComponent(segments[segments.length - 1] ?? '')
+                .replace(/\.\w{2,5}$/, '')
+                .replace(/[-_+]+/g, ' ')
+                .trim();
+            if (!slug || /^\d+$/.test(slug)) return link;
+            return slug.charAt(0).toUpperCase() + slug.slice(1);
+        } catch {
+            return link;
+        }
+    }
+
+    private ensureArray(value: unknown): Record<string, unknown>[] {
+        if (!value) return [];
+        if (Array.isArray(value)) return value;
+        return [value as Record<string, unknown>];
+    }
+
+    private getString(value: unknown): string | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+        if (typeof value === 'object') return undefined;
+        return String(value).trim() || undefined;
+    }
+}
@@ -0,0 +1,476 @@
+/**
+ * Shared date parsing for adapters
+ *
+ * Accepts Date objects, epoch numbers and strings in these forms:
+ * - ISO 8601 (`2026-10-19T08:30:00+03:00`, date-only, no-zone read as UTC)
+ * - RFC 822 / 1123 with numeric offsets or zone abbreviations (`EEST`, `PDT`)
+ * - Free-form dates with English, Turkish, German, French, Spanish, Italian,
+ *   Portuguese or Dutch month names (`6 Eylül 2026 14:30`, `6. März 2026`)
+ * - Epoch seconds / milliseconds (numbers or all-digit strings)
+ * - Relative expressions (`3 hours ago`, `yesterday 14:30`, `2 gün önce`,
+ *   `vor 5 Minuten`, `il y a 2 jours`, `hace 1 hora`)
+ *
+ * An optional format hint forces a specific interpretation:
+ * - `unix` / `unix_ms`: epoch seconds / milliseconds
+ * - `iso`: ISO 8601 only
+ * - a token pattern such as `DD/MM/YYYY HH:mm` (YYYY, YY, MMMM, MMM, MM, M,
+ *   DD, D, HH, H, mm, ss, Z); read as UTC unless the pattern has a Z token
+ */
+
+/**
+ * A parsed date and whether it had to be inferred
+ */
+export interface ParsedDate {
+    date: Date;
+    /**
+     * True when the value was not an absolute timestamp: relative
+     * expressions ("3 hours ago") or dates without a year
+     */
+    inferred: boolean;
+}
+
+export interface DateParseOptions {
+    /** Format hint (see module docs) */
+    format?: string;
+    /** Reference time for relative expressions */
+    now?: Date;
+}
+
+/**
+ * Parse a date value, returning undefined when it cannot be understood
+ */
+export function parseDate(value: unknown, format?: string): Date | undefined {
+    return parseDateValue(value, { format })?.date;
+}
+
+/**
+ * Parse a date value and report whether it was inferred
+ */
+export function parseDateValue(value: unknown, options: DateParseOptions = {}): ParsedDate | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const { format } = options;
+    const now = options.now ?? new Date();
+
+    if (value instanceof Date) {
+        return exact(valid(value));
+    }
+
+    if (format === 'unix' || format === 'unix_ms') {
+        const num = Number(value);
+        if (!Number.isFinite(num)) return undefined;
+        return exact(valid(new Date(format === 'unix' ? num * 1000 : num)));
+    }
+
+    if (typeof value === 'number') {
+        return exact(parseEpoch(value));
+    }
+
+    const str = String(value).trim();
+    if (!str) return undefined;
+
+    if (format === 'iso') {
+        return exact(parseISO(str));
+    }
+    if (format) {
+        return exact(parseWithPattern(str, format));
+    }
+
+    // All-digit strings are epoch timestamps
+    if (/^\d{9,13}(\.\d+)?$/.test(str)) {
+        return exact(parseEpoch(Number(str)));
+    }
+
+    return exact(parseISO(str)) ??
+        parseRelative(str, now) ??
+        parseFreeForm(str, now) ??
+        exact(valid(new Date(str)));
+}
+
+/**
+ * Item date fields from the first candidate value that parses
+ */
+export function toPublishedAt(
+    candidates: unknown[],
+    format?: string,
+    now?: Date
+): { publishedAt?: Date; dateInferred?: true } {
+    for (const candidate of candidates) {
+        const parsed = parseDateValue(candidate, { format, now });
+        if (parsed) {
+            return parsed.inferred
+                ? { publishedAt: parsed.date, dateInferred: true }
+                : { publishedAt: parsed.date };
+        }
+    }
+    return {};
+}
+
+/**
+ * Interpret a number as epoch seconds or milliseconds by magnitude
+ */
+function parseEpoch(num: number): Date | undefined {
+    if (!Number.isFinite(num)) return undefined;
+    // Below 1e11 is seconds (covers dates up to year 5138)
+    return valid(new Date(num < 1e11 ? num * 1000 : num));
+}
+
+/**
+ * Strict ISO 8601 (calendar dates); missing zone means UTC
+ */
+function parseISO(str: string): Date | undefined {
+    const match = str.match(
+        /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i
+    );
+    if (!match) return undefined;
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0', zone] = match;
+    const ms = Number(fraction.slice(0, 3).padEnd(3, '0'));
+    return build(+year, +month, +day, +hour, +minute, +second, zone ? parseOffset(zone) : 0, ms);
+}
+
+// ---------------------------------------------------------------------------
+// Free-form and localized dates
+// ---------------------------------------------------------------------------
+
+/** Full month names per language, accent-folded, January first */
+const MONTH_NAMES: string[][] = [
+    // English
+    ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+    // Turkish
+    ['ocak', 'subat', 'mart', 'nisan', 'mayis', 'haziran', 'temmuz', 'agustos', 'eylul', 'ekim', 'kasim', 'aralik'],
+    // German
+    ['januar', 'februar', 'marz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+    // French
+    ['janvier', 'fevrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'aout', 'septembre', 'octobre', 'novembre', 'decembre'],
+    // Spanish
+    ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    // Italian
+    ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+    // Portuguese
+    ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+    // Dutch
+    ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+];
+
+/** Abbreviations that are not prefixes of a full name */
+const MONTH_ALIASES: Record<string, number> = { mrz: 3, mrt: 3, sept: 9, setiembre: 9 };
+
+/** Zone abbreviations and their UTC offsets in minutes */
+const ZONE_OFFSETS: Record<string, number> = {
+    ut: 0, utc: 0, gmt: 0, z: 0,
+    est: -300, edt: -240, cst: -360, cdt: -300, mst: -420, mdt: -360, pst: -480, pdt: -420,
+    akst: -540, akdt: -480, hst: -600, ast: -240, adt: -180, nst: -210, ndt: -150,
+    brt: -180, art: -180,
+    wet: 0, west: 60, bst: 60, cet: 60, cest: 120, met: 60, mest: 120,
+    eet: 120, eest: 180, msk: 180, trt: 180, sast: 120, wat: 60, eat: 180,
+    gst: 240, pkt: 300, ist: 330, ict: 420, wib: 420, sgt: 480, hkt: 480, awst: 480,
+    jst: 540, kst: 540, acst: 570, acdt: 630, aest: 600, aedt: 660, nzst: 720, nzdt: 780,
+};
+
+/**
+ * Dates written with a month name, e.g. "Mon, 06 Sep 2021 16:45:00 EEST",
+ * "September 6th, 2021 at 4:45 pm", "6 Eylül 2021 Pazartesi 16:45"
+ */
+function parseFreeForm(str: string, now: Date): ParsedDate | undefined {
+    const text = fold(str)
+        // 16h45 (French) -> 16:45
+        .replace(/(\d{1,2})h(\d{2})\b/g, '$1:$2')
+        // Ordinals and trailing dots: 6th, 6.
+        .replace(/(\d+)(?:st|nd|rd|th|\.)(?=\s|,|$)/g, '$1');
+
+    let time: { hour: number; minute: number; second: number } | undefined;
+    const timeMatch = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[.,]\d+)?\s*(am|pm|a\.m\.|p\.m\.)?/);
+    let rest = text;
+    if (timeMatch) {
+        let hour = Number(timeMatch[1]);
+        const meridiem = timeMatch[4]?.[0];
+        if (meridiem === 'p' && hour < 12) hour += 12;
+        if (meridiem === 'a' && hour === 12) hour = 0;
+        time = { hour, minute: Number(timeMatch[2]), second: Number(timeMatch[3] ?? 0) };
+        rest = text.replace(timeMatch[0], ' ');
+    }
+
+    let offset: number | undefined;
+    const offsetMatch = rest.match(/(?:^|\s)(?:gmt|utc)?([+-]\d{2}(?::?\d{2})?)(?=\s|$)/);
+    if (offsetMatch) {
+        offset = parseOffset(offsetMatch[1]);
+        rest = rest.replace(offsetMatch[0], ' ');
+    }
+
+    let month: number | undefined;
+    const numbers: string[] = [];
+    for (const token of rest.split(/[\s,/-]+/).filter(Boolean)) {
+        if (/^\d+$/.test(token)) {
+            numbers.push(token);
+            continue;
+        }
+        const word = token.replace(/[.()]/g, '');
+        if (month === undefined) {
+            const candidate = lookupMonth(word);
+            if (candidate !== undefined) {
+                month = candidate;
+                continue;
+            }
+        }
+        if (offset === undefined && word in ZONE_OFFSETS) {
+            offset = ZONE_OFFSETS[word];
+        }
+        // Anything else (weekdays, "at", "um", "saat") is ignored
+    }
+
+    if (month === undefined || numbers.length === 0 || numbers.length > 2) return undefined;
+
+    let day: number;
+    let year: number | undefined;
+    const fullYear = numbers.findIndex(n => n.length === 4);
+    if (fullYear >= 0) {
+        year = Number(numbers[fullYear]);
+        const others = numbers.filter((_, i) => i !== fullYear);
+        if (others.length !== 1) return undefined;
+        day = Number(others[0]);
+    } else {
+        day = Number(numbers[0]);
+        if (numbers[1] !== undefined) {
+            const short = Number(numbers[1]);
+            year = short < 70 ? 2000 + short : 1900 + short;
+        }
+    }
+
+    const { hour = 0, minute = 0, second = 0 } = time ?? {};
+    const zone = offset ?? 0;
+
+    if (year !== undefined) {
+        const date = build(year, month, day, hour, minute, second, zone);
+        return date ? { date, inferred: false } : undefined;
+    }
+
+    // No year: assume the most recent occurrence
+    year = now.getUTCFullYear();
+    let date = build(year, month, day, hour, minute, second, zone);
+    if (date && date.getTime() - now.getTime() > 24 * 60 * 60 * 1000) {
+        date = build(year - 1, month, day, hour, minute, second, zone);
+    }
+    return date ? { date, inferred: true } : undefined;
+}
+
+/**
+ * Resolve a month name or abbreviation in any supported language
+ */
+function lookupMonth(word: string): number | undefined {
+    if (word.length < 3) return undefined;
+    if (word in MONTH_ALIASES) return MONTH_ALIASES[word];
+
+    let found: number | undefined;
+    for (const names of MONTH_NAMES) {
+        const index = names.findIndex(name => name.startsWith(word));
+        if (index === -1) continue;
+        if (found !== undefined && found !== index + 1) return undefined; // ambiguous
+        found = index + 1;
+    }
+    return found;
+}
+
+// ---------------------------------------------------------------------------
+// Relative dates
+// ---------------------------------------------------------------------------
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Unit words (accent-folded) per unit; months and years are calendar-based */
+const RELATIVE_UNITS: Array<{ unit: number | 'month' | 'year'; words: string[] }> = [
+    { unit: SECOND, words: ['s', 'sec', 'secs', 'second', 'seconds', 'saniye', 'sn', 'sekunde', 'sekunden', 'seconde', 'secondes', 'segundo', 'segundos', 'secondo', 'secondi', 'seconden'] },
+    { unit: MINUTE, words: ['m', 'min', 'mins', 'minute', 'minutes', 'dakika', 'dk', 'minuten', 'minuto', 'minutos', 'minuti', 'minuut'] },
+    { unit: HOUR, words: ['h', 'hr', 'hrs', 'hour', 'hours', 'saat', 'std', 'stunde', 'stunden', 'heure', 'heures', 'hora', 'horas', 'ora', 'ore', 'uur'] },
+    { unit: DAY, words: ['d', 'day', 'days', 'gun', 'tag', 'tage', 'tagen', 'jour', 'jours', 'dia', 'dias', 'giorno', 'giorni', 'dag', 'dagen'] },
+    { unit: 7 * DAY, words: ['w', 'wk', 'wks', 'week', 'weeks', 'hafta', 'woche', 'wochen', 'semaine', 'semaines', 'semana', 'semanas', 'settimana', 'settimane', 'weken'] },
+    { unit: 'month', words: ['mo', 'mos', 'month', 'months', 'ay', 'monat', 'monate', 'monaten', 'mois', 'mes', 'meses', 'mese', 'mesi', 'maand', 'maanden'] },
+    { unit: 'year', words: ['y', 'yr', 'yrs', 'year', 'years', 'yil', 'jahr', 'jahre', 'jahren', 'an', 'ans', 'annee', 'annees', 'ano', 'anos', 'anno', 'anni', 'jaar', 'jaren'] },
+];
+
+/** Words meaning "one" */
+const ONE = new Set(['a', 'an', 'one', 'bir', 'ein', 'eine', 'einer', 'einem', 'un', 'une', 'uno', 'una', 'um', 'uma', 'een']);
+
+const NOW_WORDS = /^(just now|now|right now|az once|simdi|gerade eben|jetzt|a l'instant|maintenant|ahora|adesso|agora|zojuist)$/;
+const TODAY_WORDS = /^(today|bugun|heute|aujourd'hui|hoy|oggi|hoje|vandaag)\b/;
+const YESTERDAY_WORDS = /^(yesterday|dun|gestern|hier|ayer|ieri|ontem|gisteren)\b/;
+
+/**
+ * "3 hours ago", "vor 3 Stunden", "il y a 3 heures", "hace 3 horas",
+ * "3 saat önce", "3 ore fa", "há 3 horas", "3 uur geleden", "yesterday 14:30"
+ */
+function parseRelative(str: string, now: Date): ParsedDate | undefined {
+    const text = fold(str).replace(/\s+/g, ' ').replace(/[.!]$/, '');
+
+    if (NOW_WORDS.test(text)) {
+        return { date: new Date(now.getTime()), inferred: true };
+    }
+
+    const dayWord = text.match(TODAY_WORDS) ?? text.match(YESTERDAY_WORDS);
+    if (dayWord) {
+        const daysBack = YESTERDAY_WORDS.test(text) ? 1 : 0;
+        const base = new Date(now.getTime() - daysBack * DAY);
+        const time = text.slice(dayWord[0].length).match(/(\d{1,2})[:h.](\d{2})/);
+        if (time) {
+            base.setUTCHours(Number(time[1]), Number(time[2]), 0, 0);
+        } else if (text.slice(dayWord[0].length).trim()) {
+            return undefined;
+        }
+        return { date: base, inferred: true };
+    }
+
+    const amount = '(\\d+|[a-z]+)';
+    const unit = '([a-z]+)';
+    const patterns = [
+        new RegExp(`^(?:about |~)?${amount} ?${unit} (?:ago|once|evvel|fa|geleden)$`),
+        new RegExp(`^(?:vor|il y a|hace|ha) ${amount} ?${unit}$`),
+    ];
+
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (!match) continue;
+
+        const count = /^\d+$/.test(match[1]) ? Number(match[1]) : ONE.has(match[1]) ? 1 : undefined;
+        const unitEntry = RELATIVE_UNITS.find(u => u.words.includes(match[2]));
+        if (count === undefined || !unitEntry) return undefined;
+
+        const date = new Date(now.getTime());
+        if (unitEntry.unit === 'month') {
+            date.setUTCMonth(date.getUTCMonth() - count);
+        } else if (unitEntry.unit === 'year') {
+            date.setUTCFullYear(date.getUTCFullYear() - count);
+        } else {
+            date.setTime(date.getTime() - count * unitEntry.unit);
+        }
+        return { date, inferred: true };
+    }
+
+    return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Format patterns
+// ---------------------------------------------------------------------------
+
+type DatePart = 'year' | 'month' | 'monthName' | 'day' | 'hour' | 'minute' | 'second' | 'zone';
+
+const TOKENS: Record<string, { re: string; part: DatePart; short?: boolean }> = {
+    YYYY: { re: '(\\d{4})', part: 'year' },
+    YY: { re: '(\\d{2})', part: 'year', short: true },
+    MMMM: { re: '([^\\s\\d.,/-]+)\\.?', part: 'monthName' },
+    MMM: { re: '([^\\s\\d.,/-]+)\\.?', part: 'monthName' },
+    MM: { re: '(\\d{2})', part: 'month' },
+    M: { re: '(\\d{1,2})', part: 'month' },
+    DD: { re: '(\\d{2})', part: 'day' },
+    D: { re: '(\\d{1,2})', part: 'day' },
+    HH: { re: '(\\d{2})', part: 'hour' },
+    H: { re: '(\\d{1,2})', part: 'hour' },
+    mm: { re: '(\\d{2})', part: 'minute' },
+    ss: { re: '(\\d{2})', part: 'second' },
+    Z: { re: '(Z|[+-]\\d{2}:?\\d{2}|[A-Za-z]{2,5})', part: 'zone' },
+};
+
+/**
+ * Parse a string against a token pattern
+ */
+function parseWithPattern(str: string, pattern: string): Date | undefined {
+    const parts: Array<{ part: DatePart; short?: boolean }> = [];
+    const tokenRe = /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|ss|Z/g;
+
+    let regex = '';
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRe.exec(pattern)) !== null) {
+        regex += escape(pattern.slice(last, match.index)) + TOKENS[match[0]].re;
+        parts.push(TOKENS[match[0]]);
+        last = match.index + match[0].length;
+    }
+    regex += escape(pattern.slice(last));
+
+    const result = new RegExp(`^${regex}`, 'i').exec(str.trim());
+    if (!result) return undefined;
+
+    const fields: Record<string, number> = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, zone: 0 };
+    for (const [i, p] of parts.entries()) {
+        const raw = result[i + 1];
+        if (p.part === 'monthName') {
+            const month = lookupMonth(fold(raw));
+            if (month === undefined) return undefined;
+            fields.month = month;
+        } else if (p.part === 'zone') {
+            const zone = /^[+-]/.test(raw) ? parseOffset(raw) : ZONE_OFFSETS[raw.toLowerCase()];
+            if (zone === undefined) return undefined;
+            fields.zone = zone;
+        } else {
+            let num = Number(raw);
+            if (p.short) num += num < 70 ? 2000 : 1900;
+            fields[p.part] = num;
+        }
+    }
+
+    return build(fields.year, fields.month, fields.day, fields.hour, fields.minute, fields.second, fields.zone);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Lowercase and strip accents (Turkish dotless ı included)
+ */
+function fold(str: string): string {
+    return str
+        .toLowerCase()
+        .replace(/ı/g, 'i')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim();
+}
+
+/**
+ * "+03:00", "+0300", "-05", "Z" -> minutes east of UTC
+ */
+function parseOffset(zone: string): number {
+    if (/^z$/i.test(zone)) return 0;
+    const match = zone.match(/^([+-])(\d{2}):?(\d{2})?$/);
+    if (!match) return 0;
+    const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+    return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Build a UTC date from local fields and an offset, rejecting overflow
+ * (e.g. 31 February)
+ */
+function build(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    second: number,
+    offsetMinutes: number,
+    ms: number = 0
+): Date | undefined {
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 60) {
+        return undefined;
+    }
+    const local = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+    const check = new Date(local);
+    if (check.getUTCDate() !== day) return undefined;
+    return valid(new Date(local - offsetMinutes * MINUTE));
+}
+
+function exact(date: Date | undefined): ParsedDate | undefined {
+    return date ? { date, inferred: false } : undefined;
+}
+
+function escape(literal: string): string {
+    return literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function valid(date: Date): Date | undefined {
+    return isNaN(date.getTime()) ? undefined : date;
+}
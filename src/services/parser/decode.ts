@@ -0,0 +1,98 @@
+/**
+ * Response body reading and charset-aware decoding
+ *
+ * Bodies are streamed with a byte cap, then decoded using (in order):
+ * 1. Byte order mark
+ * 2. charset parameter of the Content-Type header
+ * 3. XML declaration encoding / HTML <meta charset>
+ * 4. UTF-8
+ */
+
+/** Default response size cap (5 MB) */
+export const DEFAULT_MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+/** How many leading bytes to scan for in-document charset declarations */
+const SNIFF_BYTES = 1024;
+
+/**
+ * Read a response body as bytes, aborting once it exceeds maxBytes
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array> {
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+        await response.body?.cancel();
+        throw new Error(`Response too large: ${declaredLength} bytes exceeds limit of ${maxBytes}`);
+    }
+
+    if (!response.body) {
+        return new Uint8Array(0);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        received += value.byteLength;
+        if (received > maxBytes) {
+            await reader.cancel();
+            throw new Error(`Response too large: exceeded limit of ${maxBytes} bytes`);
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return body;
+}
+
+/**
+ * Work out which charset a body is encoded in
+ */
+export function detectCharset(bytes: Uint8Array, contentTypeHeader?: string): string {
+    // BOM always wins
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+
+    const fromHeader = contentTypeHeader?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+    if (fromHeader && isSupportedCharset(fromHeader)) return fromHeader.toLowerCase();
+
+    // Declarations are ASCII, so latin1 is safe for sniffing
+    const head = Buffer.from(bytes.subarray(0, SNIFF_BYTES)).toString('latin1');
+
+    const xmlEncoding = head.match(/^\s*<\?xml[^>]*\sencoding\s*=\s*["']([\w.:-]+)["']/i)?.[1];
+    if (xmlEncoding && isSupportedCharset(xmlEncoding)) return xmlEncoding.toLowerCase();
+
+    const metaCharset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+    if (metaCharset && isSupportedCharset(metaCharset)) return metaCharset.toLowerCase();
+
+    return 'utf-8';
+}
+
+/**
+ * Decode a body to a string using the detected charset
+ */
+export function decodeBody(bytes: Uint8Array, contentTypeHeader?: string): string {
+    const charset = detectCharset(bytes, contentTypeHeader);
+    return new TextDecoder(charset).decode(bytes);
+}
+
+/**
+ * Check whether TextDecoder knows a charset label
+ */
+function isSupportedCharset(label: string): boolean {
+    try {
+        new TextDecoder(label);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Query parameters that only carry campaign / click tracking
+ */
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'igshid', 'li_fat_id',
+    'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id', 'vero_id',
+    'ref_src', 'ref_url', 'cmpid', 'ncid', 'ocid', 'sr_share', 'spm', 'at_medium', 'at_campaign',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Remove tracking parameters and fragments from a URL
+ *
+ * Also lowercases the host and drops default ports. Returns the input
+ * unchanged when it is not an absolute http(s) URL.
+ */
+export function cleanUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url;
+
+    for (const name of [...parsed.searchParams.keys()]) {
+        if (isTrackingParam(name)) parsed.searchParams.delete(name);
+    }
+    parsed.hash = '';
+    // URL already lowercases the host and drops default ports
+    return parsed.href.replace(/\?$/, '');
+}
+
+/**
+ * Canonical form of a URL used for identity comparisons
+ *
+ * On top of cleanUrl: https scheme, no "www.", no trailing slash, sorted
+ * query parameters. Not meant to be fetched.
+ */
+export function canonicalUrlKey(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(cleanUrl(url));
+    } catch {
+        return url.trim();
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url.trim();
+
+    parsed.protocol = 'https:';
+    parsed.hostname = parsed.hostname.replace(/^www\./, '').replace(/\.$/, '');
+    parsed.port = '';
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1) {
+        parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.href.replace(/\?$/, '');
+}
+
+/**
+ * Identity inputs for an item, in order of preference
+ */
+export interface ItemIdentity {
+    /** Native identifier from the document (RSS guid, Atom id, JSON id) */
+    guid?: string;
+    /** rel="canonical" URL of the item, when the document declares one */
+    canonicalUrl?: string;
+    /** Item link */
+    link?: string;
+    /** Last resort, e.g. title or serialized item */
+    fallback?: string;
+}
+
+/**
+ * Build a stable item ID
+ *
+ * SHA-256 of the source ID plus the GUID, canonical URL, link or fallback
+ * (URLs in canonical form), truncated to 128 bits. The same article gets
+ * the same ID across restarts, adapters and tracking-parameter variants.
+ */
+export function createItemId(sourceId: string, identity: ItemIdentity): string {
+    const guid = identity.guid?.trim();
+    const url = identity.canonicalUrl || identity.link;
+
+    let key: string;
+    if (guid) {
+        // URL-shaped GUIDs get the same treatment as links
+        key = /^https?:\/\//i.test(guid) ? `url:${canonicalUrlKey(guid)}` : `guid:${guid}`;
+    } else if (url) {
+        key = `url:${canonicalUrlKey(url)}`;
+    } else {
+        key = `text:${identity.fallback ?? ''}`;
+    }
+
+    return createHash('sha256').update(`${sourceId}\n${key}`).digest('hex').slice(0, 32);
+}
@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { UniversalParser } from './index.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ContentAdapter, FetchLimiter, SafeXmlParser, UniversalParser, XmlLimitError, checkXmlLimits } from './index.js';
+import { SourceConfig, XmlLimitsSchema } from '../../config/schema.js';
+import { parseDateValue } from './dates.js';
+import { cleanUrl, createItemId } from './ids.js';
+import { loadAdapterModule } from './plugins.js';
+import { htmlToMarkdown } from '../../utils/html.js';
 
 
 describe('UniversalParser', () => {
@@ -47,6 +55,369 @@ describe('UniversalParser', () => {
         expect(result.items[0].title).toBe('Atom Entry');
     });
 
+    it('should parse RSS 1.0 (RDF) feeds', async () => {
+        const xml = `<?xml version="1.0"?>
+            <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+                <channel rdf:about="http://example.gov/">
+                    <title>Gov Feed</title>
+                    <link>http://example.gov/</link>
+                    <description>Announcements</description>
+                </channel>
+                <item rdf:about="http://example.gov/notice/1">
+                    <title>Notice One</title>
+                    <link>http://example.gov/notice/1</link>
+                    <dc:date>2021-09-06T16:45:00Z</dc:date>
+                    <dc:creator>Press Office</dc:creator>
+                    <dc:subject>Policy</dc:subject>
+                </item>
+            </rdf:RDF>
+        `;
+
+        expect(parser.detectContentType(xml)).toBe('rss');
+
+        const result = await parser.parse(xml, mockSource);
+        expect(result.success).toBe(true);
+        expect(result.metadata?.title).toBe('Gov Feed');
+        expect(result.items[0]).toMatchObject({
+            guid: 'http://example.gov/notice/1',
+            title: 'Notice One',
+            author: 'Press Office',
+            categories: ['Policy'],
+        });
+        expect(result.items[0].publishedAt?.toISOString()).toBe('2021-09-06T16:45:00.000Z');
+    });
+
+    it('should sanitize item HTML and render text and Markdown forms', async () => {
+        const xml = `
+            <rss version="2.0">
+                <channel>
+                    <title>Test Feed</title>
+                    <item>
+                        <title>Unsafe Item</title>
+                        <link>http://example.com/unsafe</link>
+                        <description><![CDATA[<p style="color:red" onclick="steal()">Read <a href="/more" onmouseover="x()">more</a> &amp; <b>enjoy</b></p><script>alert(1)</script><img src="http://t.example.com/pixel.gif" width="1" height="1"><a href="javascript:alert(2)">bad link</a>]]></description>
+                    </item>
+                </channel>
+            </rss>
+        `;
+        const result = await parser.parse(xml, mockSource);
+        const [item] = result.items;
+
+        expect(item.description).toBe('<p>Read <a href="http://example.com/more">more</a> &amp; <b>enjoy</b></p>bad link');
+        expect(item.rendered?.text.description).toBe('Read more & enjoy\n\nbad link');
+        expect(item.rendered?.markdown.description).toBe('Read [more](http://example.com/more) & **enjoy**\n\nbad link');
+
+        // Unsanitized input (e.g. extracted articles) gets the same scheme check
+        expect(htmlToMarkdown('<a href="JavaScript:alert(1)">a</a> <a href="vbscript:x">b</a> <img src="data:image/svg+xml,x">'))
+            .toBe('a b');
+    });
+
+    it('should parse podcast enclosures, Media RSS and iTunes tags', async () => {
+        const xml = `
+            <rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:media="http://search.yahoo.com/mrss/">
+                <channel>
+                    <title>Test Podcast</title>
+                    <item>
+                        <title>Episode 12</title>
+                        <link>http://example.com/ep12</link>
+                        <enclosure url="http://cdn.example.com/ep12.mp3" length="24986239" type="audio/mpeg"/>
+                        <itunes:duration>1:02:05</itunes:duration>
+                        <itunes:episode>12</itunes:episode>
+                        <itunes:image href="http://cdn.example.com/ep12.jpg"/>
+                        <media:group>
+                            <media:content url="http://cdn.example.com/ep12.mp4" type="video/mp4" fileSize="1000" duration="3725" width="1280" height="720"/>
+                            <media:thumbnail url="http://cdn.example.com/ep12-thumb.jpg"/>
+                        </media:group>
+                    </item>
+                </channel>
+            </rss>
+        `;
+        const result = await parser.parse(xml, mockSource);
+        const [item] = result.items;
+
+        expect(item.enclosures).toEqual([
+            { url: 'http://cdn.example.com/ep12.mp3', mimeType: 'audio/mpeg', medium: 'audio', length: 24986239, duration: 3725 },
+            {
+                url: 'http://cdn.example.com/ep12.mp4', mimeType: 'video/mp4', medium: 'video', length: 1000, duration: 3725,
+                thumbnailUrl: 'http://cdn.example.com/ep12-thumb.jpg', width: 1280, height: 720,
+            },
+        ].map(e => expect.objectContaining(e)));
+        expect(item.imageUrl).toBe('http://cdn.example.com/ep12-thumb.jpg');
+        expect(item.metadata?.episode).toBe(12);
+
+        const atom = `
+            <feed xmlns="http://www.w3.org/2005/Atom">
+                <entry>
+                    <title>Show</title><id>urn:show</id>
+                    <link href="http://example.com/show"/>
+                    <link rel="enclosure" href="http://cdn.example.com/show.ogg" type="audio/ogg" length="42"/>
+                </entry>
+            </feed>
+        `;
+        const atomResult = await parser.parse(atom, mockSource);
+        expect(atomResult.items[0].link).toBe('http://example.com/show');
+        expect(atomResult.items[0].enclosures).toEqual([
+            expect.objectContaining({ url: 'http://cdn.example.com/show.ogg', medium: 'audio', length: 42 }),
+        ]);
+    });
+
+    it('should parse JSON Feed 1.1 with its own content type', async () => {
+        const feed = JSON.stringify({
+            version: 'https://jsonfeed.org/version/1.1',
+            title: 'JSON Feed Blog',
+            home_page_url: 'https://example.org/',
+            icon: 'https://example.org/icon.png',
+            authors: [{ name: 'Feed Author' }],
+            items: [
+                {
+                    id: '2',
+                    url: 'https://example.org/2',
+                    title: 'Second',
+                    content_html: '<p>Hello</p>',
+                    content_text: 'Hello',
+                    summary: 'Short summary',
+                    date_published: '2024-01-02T10:00:00Z',
+                    tags: ['news'],
+                    attachments: [{ url: 'https://example.org/a.mp3', mime_type: 'audio/mpeg' }],
+                },
+                {
+                    id: '1',
+                    url: 'https://example.org/1',
+                    content_text: 'A microblog post without a title',
+                    authors: [{ name: 'Item Author' }],
+                },
+            ],
+        });
+
+        expect(parser.detectContentType(feed)).toBe('jsonfeed');
+
+        const result = await parser.parse(feed, mockSource);
+        expect(result.success).toBe(true);
+        expect(result.contentType).toBe('jsonfeed');
+        expect(result.metadata?.link).toBe('https://example.org/');
+        expect(result.metadata?.icon).toBe('https://example.org/icon.png');
+        expect(result.items[0]).toMatchObject({
+            title: 'Second',
+            description: 'Short summary',
+            content: '<p>Hello</p>',
+            author: 'Feed Author',
+            categories: ['news'],
+        });
+        expect(result.items[0].publishedAt?.toISOString()).toBe('2024-01-02T10:00:00.000Z');
+        expect(result.items[0].metadata?.attachments).toHaveLength(1);
+        expect(result.items[1].title).toBe('A microblog post without a title');
+        expect(result.items[1].author).toBe('Item Author');
+    });
+
+    it('should apply declarative JSON field mappings', async () => {
+        const json = JSON.stringify({
+            payload: {
+                stories: [
+                    {
+                        uid: 'st-1',
+                        headline: { main: 'Mapped Story' },
+                        path: '/stories/1',
+                        teaser: '<b>Short</b> teaser',
+                        when: '19/10/2026 08:30',
+                        sections: [{ name: 'world' }, { name: 'politics' }],
+                    },
+                ],
+            },
+        });
+        const source = {
+            ...mockSource,
+            type: 'json',
+            mapping: {
+                items: '$.payload.stories[*]',
+                fields: {
+                    id: { path: 'uid', prefix: 'api-' },
+                    title: 'headline.main',
+                    link: 'path',
+                    description: { path: 'teaser', stripHtml: true },
+                    author: { path: 'byline', default: 'Staff' },
+                    publishedAt: 'when',
+                    categories: 'sections[*].name',
+                },
+                dateFormat: 'DD/MM/YYYY HH:mm',
+                baseUrl: 'https://example.com',
+            },
+        };
+
+        const result = await parser.parse(json, source);
+
+        expect(result.success).toBe(true);
+        expect(result.items[0]).toMatchObject({
+            guid: 'api-st-1',
+            title: 'Mapped Story',
+            link: 'https://example.com/stories/1',
+            description: 'Short teaser',
+            author: 'Staff',
+            categories: ['world', 'politics'],
+        });
+        expect(result.items[0].publishedAt?.toISOString()).toBe('2026-10-19T08:30:00.000Z');
+    });
+
+    it('should resolve JSON links against the document URL and keep absolute links as they are', async () => {
+        const json = JSON.stringify([
+            { title: 'Relative', url: '/stories/1', image: 'img/1.jpg' },
+            { title: 'Absolute', url: 'https://cdn.example.net/stories/2' },
+        ]);
+
+        const guessed = await parser.parse(json, { ...mockSource, type: 'json' }, 'application/json', {
+            documentUrl: 'https://api.example.com/v1/feed',
+        });
+        expect(guessed.items.map(item => item.link)).toEqual([
+            'https://api.example.com/stories/1',
+            'https://cdn.example.net/stories/2',
+        ]);
+        expect(guessed.items[0].imageUrl).toBe('https://api.example.com/v1/img/1.jpg');
+
+        const prefixed = await parser.parse(json, {
+            ...mockSource,
+            type: 'json',
+            mapping: { fields: { link: { path: 'url', prefix: 'https://example.com' } } },
+        });
+        expect(prefixed.items.map(item => item.link)).toEqual([
+            'https://example.com/stories/1',
+            'https://cdn.example.net/stories/2',
+        ]);
+    });
+
+    it('should apply per-field CSS selectors to HTML sources', async () => {
+        const html = `<!doctype html><html><body>
+            <div class="story" data-id="s1">
+                <a class="promo" href="/promo">Subscribe</a>
+                <h2><a class="headline" href="/news/1">First Story</a></h2>
+                <p class="kicker">Breaking</p>
+                <p class="lede">The actual summary</p>
+                <span class="meta"><time datetime="2026-10-19T07:00:00Z">Today</time></span>
+                <ul><li class="topic">world</li><li class="topic">economy</li></ul>
+            </div>
+        </body></html>`;
+        const source = {
+            ...mockSource,
+            type: 'html',
+            url: 'https://example.com/news',
+            selector: '.story',
+            selectors: {
+                fields: {
+                    id: '@data-id',
+                    link: 'a.headline@href',
+                    description: 'p.lede',
+                    publishedAt: 'time@datetime',
+                    categories: 'li.topic',
+                },
+            },
+        };
+
+        const result = await parser.parse(html, source);
+
+        expect(result.success).toBe(true);
+        expect(result.items[0]).toMatchObject({
+            guid: 's1',
+            title: 'First Story',
+            link: 'https://example.com/news/1',
+            description: 'The actual summary',
+            categories: ['world', 'economy'],
+        });
+        expect(result.items[0].publishedAt?.toISOString()).toBe('2026-10-19T07:00:00.000Z');
+    });
+
+    it('should prefer the mapping or selectors dateFormat over the source dateFormat', async () => {
+        const json = JSON.stringify([{ title: 'Story', url: 'https://example.com/1', when: '05/04/2026 10:00' }]);
+        const html = `<html><body><div class="story">
+            <h2><a href="/1">Story</a></h2><span class="when">05/04/2026 10:00</span>
+        </div></body></html>`;
+        const jsonSource = { ...mockSource, type: 'json', dateFormat: 'MM/DD/YYYY HH:mm' };
+        const htmlSource = { ...mockSource, type: 'html', url: 'https://example.com/', selector: '.story', dateFormat: 'MM/DD/YYYY HH:mm' };
+        const publishedAt = async (content: string, source: typeof mockSource) =>
+            (await parser.parse(content, source)).items[0].publishedAt?.toISOString();
+
+        // Source-level hint applies when the mapping or selectors have none
+        expect(await publishedAt(json, { ...jsonSource, mapping: { fields: { publishedAt: 'when' } } }))
+            .toBe('2026-05-04T10:00:00.000Z');
+        expect(await publishedAt(html, { ...htmlSource, selectors: { fields: { publishedAt: '.when' } } }))
+            .toBe('2026-05-04T10:00:00.000Z');
+
+        // The mapping or selectors hint wins when both are set
+        expect(await publishedAt(json, {
+            ...jsonSource,
+            mapping: { fields: { publishedAt: 'when' }, dateFormat: 'DD/MM/YYYY HH:mm' },
+        })).toBe('2026-04-05T10:00:00.000Z');
+        expect(await publishedAt(html, {
+            ...htmlSource,
+            selectors: { fields: { publishedAt: '.when' }, dateFormat: 'DD/MM/YYYY HH:mm' },
+        })).toBe('2026-04-05T10:00:00.000Z');
+    });
+
+    it('should parse Google News and image sitemaps', async () => {
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+            <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+                    xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+                    xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+                <url>
+                    <loc>https://example.com/2026/10/council-vote.html</loc>
+                    <news:news>
+                        <news:publication><news:name>Example Times</news:name><news:language>en</news:language></news:publication>
+                        <news:publication_date>2026-10-19T08:30:00+03:00</news:publication_date>
+                        <news:title><![CDATA[Council votes on budget]]></news:title>
+                        <news:keywords>budget, city council</news:keywords>
+                    </news:news>
+                    <image:image><image:loc>https://example.com/img/vote.jpg</image:loc><image:caption>The vote</image:caption></image:image>
+                </url>
+                <url>
+                    <loc>https://example.com/guides/getting-started</loc>
+                    <lastmod>2026-10-01</lastmod>
+                </url>
+            </urlset>`;
+
+        const result = await parser.parse(xml, mockSource);
+
+        expect(result.contentType).toBe('sitemap');
+        expect(result.items[0]).toMatchObject({
+            title: 'Council votes on budget',
+            link: 'https://example.com/2026/10/council-vote.html',
+            publishedAt: new Date('2026-10-19T05:30:00Z'),
+            categories: ['budget', 'city council'],
+            imageUrl: 'https://example.com/img/vote.jpg',
+            metadata: { publication: 'Example Times', language: 'en' },
+        });
+        expect(result.items[0].enclosures).toEqual([
+            { url: 'https://example.com/img/vote.jpg', medium: 'image', title: 'The vote' },
+        ]);
+        expect(result.items[1]).toMatchObject({
+            title: 'Getting started',
+            publishedAt: new Date('2026-10-01T00:00:00Z'),
+        });
+    });
+
+    it('should pick the adapter with the most confident structural match', async () => {
+        const xhtml = `<?xml version="1.0" encoding="UTF-8"?>
+            <html xmlns="http://www.w3.org/1999/xhtml"><head><title>Page</title></head>
+            <body><article><a href="/a">A</a></article><article><a href="/b">B</a></article></body></html>`;
+        expect(parser.detectContentType(xhtml, 'text/xml')).toBe('html');
+
+        const result = await parser.parse(xhtml, mockSource, 'text/xml');
+        expect(result.detection).toEqual({ type: 'html', confidence: 0.95 });
+        expect(result.items).toHaveLength(2);
+
+        const atom = '<!-- generated --><feed xmlns="http://www.w3.org/2005/Atom"><title>T</title></feed>';
+        expect((await parser.parse(atom, mockSource)).detection).toEqual({ type: 'atom', confidence: 0.95 });
+
+        const explicit = await parser.parse(atom, { ...mockSource, type: 'atom' });
+        expect(explicit.detection).toEqual({ type: 'atom', confidence: 1 });
+    });
+
+    it('should fail JSON error bodies instead of turning them into items', async () => {
+        const body = JSON.stringify({ status: 'error', name: 'AuthError', message: 'Invalid API key' });
+
+        const result = await parser.parse(body, mockSource, 'application/json');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('API returned an error: Invalid API key');
+        expect(result.detection).toEqual({ type: 'json', confidence: 0.1 });
+    });
+
     it('should return empty array for invalid XML', async () => {
         const xml = `<invalid>xml</invalid>`;
         const result = await parser.parse(xml, mockSource);
@@ -54,3 +425,489 @@ describe('UniversalParser', () => {
         expect(result.items).toHaveLength(0);
     });
 });
+
+describe('UniversalParser.fetchAndParse', () => {
+    const source: SourceConfig = { id: 'cond', type: 'rss', url: 'http://test.com/feed', name: 'Cond Feed', priority: 1, enabled: true };
+    const xml = `<rss version="2.0"><channel><title>T</title><item><title>One</title><link>http://example.com/1</link></item></channel></rss>`;
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should send validators and reuse items on 304', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(xml, {
+                status: 200,
+                headers: { 'content-type': 'application/rss+xml', 'etag': '"abc"', 'last-modified': 'Mon, 06 Sep 2021 16:45:00 GMT' },
+            }))
+            .mockResolvedValueOnce(new Response(null, { status: 304 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const first = await parser.fetchAndParse(source);
+        const second = await parser.fetchAndParse(source);
+
+        const headers = fetchMock.mock.calls[1][1].headers;
+        expect(headers['If-None-Match']).toBe('"abc"');
+        expect(headers['If-Modified-Since']).toBe('Mon, 06 Sep 2021 16:45:00 GMT');
+        expect(second.notModified).toBe(true);
+        expect(second.result.success).toBe(true);
+        expect(second.result.items).toEqual(first.result.items);
+    });
+
+    it('should apply auth and custom headers from env vars', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn().mockResolvedValue(new Response(xml, { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubEnv('TEST_API_KEY', 'secret-key');
+        vi.stubEnv('TEST_TENANT', 'acme');
+
+        await parser.fetchAndParse({
+            ...source,
+            auth: { type: 'apiKey', keyEnv: 'TEST_API_KEY', in: 'query', name: 'api_key' },
+            headers: { 'X-Tenant': '${TEST_TENANT}' },
+        });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://test.com/feed?api_key=secret-key');
+        expect(init.headers['X-Tenant']).toBe('acme');
+        vi.unstubAllEnvs();
+    });
+
+    it('should fail when a referenced env var is missing', async () => {
+        const parser = new UniversalParser();
+        vi.stubGlobal('fetch', vi.fn());
+
+        const { result } = await parser.fetchAndParse({
+            ...source,
+            auth: { type: 'bearer', tokenEnv: 'OMNIWIRE_MISSING_TOKEN' },
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('OMNIWIRE_MISSING_TOKEN');
+    });
+
+    it('should decode legacy charsets from the XML declaration', async () => {
+        const parser = new UniversalParser();
+        const doc = `<?xml version="1.0" encoding="windows-1254"?><rss version="2.0"><channel><title>T</title><item><title>Işık ğüş</title><link>http://example.com/tr</link></item></channel></rss>`;
+        // ş = 0xFE, ı = 0xFD, ğ = 0xF0, ü = 0xFC in windows-1254
+        const encoded = Buffer.from(doc.replace('Işık ğüş', 'I\xfe\xfdk \xf0\xfc\xfe'), 'latin1');
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(encoded, {
+            status: 200,
+            headers: { 'content-type': 'application/xml' },
+        })));
+
+        const { result } = await parser.fetchAndParse(source);
+
+        expect(result.success).toBe(true);
+        expect(result.items[0].title).toBe('Işık ğüş');
+    });
+
+    it('should fail cleanly when the body exceeds the size cap', async () => {
+        const parser = new UniversalParser();
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('x'.repeat(4096), { status: 200 })));
+
+        const { result } = await parser.fetchAndParse(source, 10000, { maxResponseBytes: 1024 });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Response too large');
+    });
+
+    it('should retry transient failures and report only the final outcome', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response('busy', { status: 503, headers: { 'retry-after': '0' } }))
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(new Response(xml, { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse(source, 10000, {
+            retry: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000, jitter: 0, retryOnStatus: [503], retryOnTimeout: true, retryOnNetworkError: true },
+        });
+
+        expect(outcome.result.success).toBe(true);
+        expect(outcome.attempts).toBe(3);
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn().mockResolvedValue(new Response('missing', { status: 404 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse({ ...source, retry: { baseDelayMs: 0 } });
+
+        expect(outcome.result.success).toBe(false);
+        expect(outcome.result.error).toContain('HTTP 404');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when Retry-After exceeds the retry budget', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn().mockResolvedValue(new Response('slow down', { status: 429, headers: { 'retry-after': '120' } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse({ ...source, retry: { maxDelayMs: 5000 } });
+
+        expect(outcome.result.success).toBe(false);
+        expect(outcome.result.error).toContain('Retry-After');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should follow JSON cursors across pages', async () => {
+        const parser = new UniversalParser();
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(Response.json({ items: [{ id: '1', title: 'One' }], meta: { next: 'abc' } }))
+            .mockResolvedValueOnce(Response.json({ items: [{ id: '2', title: 'Two' }], meta: { next: null } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse({
+            ...source,
+            type: 'json',
+            pagination: { type: 'cursor', cursorPath: 'meta.next', cursorParam: 'after', maxPages: 5, stopAtKnown: true },
+        });
+
+        expect(outcome.result.items.map(i => i.guid)).toEqual(['1', '2']);
+        expect(outcome.pages).toBe(2);
+        expect(fetchMock.mock.calls[1][0]).toBe('http://test.com/feed?after=abc');
+    });
+
+    it('should follow Atom next links until known items appear', async () => {
+        const parser = new UniversalParser();
+        const page = (ids: string[], next?: string) => new Response(`<feed xmlns="http://www.w3.org/2005/Atom"><title>Paged</title>
+            ${next ? `<link rel="next" href="${next}"/>` : ''}
+            ${ids.map(id => `<entry><title>${id}</title><id>${id}</id><link href="http://example.com/${id}"/></entry>`).join('')}
+        </feed>`, { status: 200 });
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(page(['a', 'b'], '/feed?page=2'))
+            .mockResolvedValueOnce(page(['c', 'd'], '/feed?page=3'))
+            .mockResolvedValueOnce(page(['e']));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse(
+            { ...source, type: 'atom', pagination: { type: 'link', maxPages: 5, stopAtKnown: true } },
+            10000,
+            { knownItemIds: new Set([createItemId(source.id, { guid: 'd' })]) }
+        );
+
+        expect(outcome.result.items.map(i => i.guid)).toEqual(['a', 'b', 'c', 'd']);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should follow sitemap indexes up to the depth limit', async () => {
+        const parser = new UniversalParser();
+        const index = (...locs: string[]) => new Response(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            ${locs.map((loc, i) => `<sitemap><loc>${loc}</loc><lastmod>2026-10-0${i + 1}</lastmod></sitemap>`).join('')}
+        </sitemapindex>`, { status: 200, headers: { 'content-type': 'application/xml' } });
+        const urlset = (...paths: string[]) => new Response(`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            ${paths.map(path => `<url><loc>http://test.com${path}</loc></url>`).join('')}
+        </urlset>`, { status: 200, headers: { 'content-type': 'application/xml' } });
+
+        const fetchMock = vi.fn(async (url: string) => {
+            switch (url) {
+                case 'http://test.com/sitemap.xml': return index('/older.xml', '/nested.xml', 'http://other.com/x.xml');
+                case 'http://test.com/nested.xml': return index('/deep.xml');
+                case 'http://test.com/older.xml': return urlset('/a', '/b');
+                default: return urlset('/never');
+            }
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const outcome = await parser.fetchAndParse({
+            ...source, type: 'auto', url: 'http://test.com/sitemap.xml', sitemap: { maxDepth: 1, maxSitemaps: 10 },
+        });
+
+        expect(outcome.result.success).toBe(true);
+        expect(outcome.result.items.map(i => i.link)).toEqual(['http://test.com/a', 'http://test.com/b']);
+        // Newest child first; the nested index is fetched but its children are beyond maxDepth
+        expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+            'http://test.com/sitemap.xml', 'http://test.com/nested.xml', 'http://test.com/older.xml',
+        ]);
+        expect(outcome.pages).toBe(3);
+    });
+});
+
+describe('UniversalParser adapter registry', () => {
+    const source = { id: 'custom', name: 'Custom', url: 'http://test.com/data', type: 'auto', priority: 1, enabled: true };
+
+    const csvAdapter: ContentAdapter = {
+        supportedTypes: ['csv'],
+        canParse: content => content.startsWith('title,link'),
+        detect: content => content.startsWith('title,link\n') ? 0.9 : 0,
+        parse: async (content, sourceId, sourceName) => ({
+            success: true,
+            contentType: 'csv',
+            items: content.trim().split('\n').slice(1).map(line => {
+                const [title, link] = line.split(',');
+                return { id: link, title, link, categories: [], sourceId, sourceName };
+            }),
+        }),
+    };
+    const csv = 'title,link\nOne,https://example.com/1\nTwo,https://example.com/2';
+
+    it('should route auto-detected and explicitly typed content to custom adapters', async () => {
+        const parser = new UniversalParser();
+        parser.registerAdapter(csvAdapter);
+
+        const auto = await parser.parse(csv, source);
+        expect(auto.contentType).toBe('csv');
+        expect(auto.items.map(i => i.title)).toEqual(['One', 'Two']);
+
+        // Explicit types skip detection entirely
+        const explicit = await parser.parse(`title,link,extra\nThree,https://example.com/3`, { ...source, type: 'csv' });
+        expect(explicit.items.map(i => i.title)).toEqual(['Three']);
+
+        const missing = await parser.parse(csv, { ...source, type: 'tsv' });
+        expect(missing.success).toBe(false);
+    });
+
+    it('should ignore detect() scores below minConfidence', async () => {
+        const parser = new UniversalParser();
+        parser.registerAdapter({ ...csvAdapter, detect: () => 0.3 });
+        parser.registerAdapter({ ...csvAdapter, supportedTypes: ['strict'] }, { minConfidence: 0.95 });
+
+        const result = await parser.parse('<rss version="2.0"><channel><title>T</title></channel></rss>', source);
+        expect(result.contentType).toBe('rss');
+        expect(() => parser.registerAdapter(csvAdapter, { minConfidence: 2 })).toThrow('between 0 and 1');
+    });
+
+    it('should load adapters from module paths and skip broken ones', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'omniwire-adapters-'));
+        try {
+            await writeFile(join(dir, 'good.mjs'), `export default {
+                adapter: {
+                    supportedTypes: ['acme'],
+                    canParse: () => false,
+                    parse: async () => ({ success: true, contentType: 'acme', items: [] }),
+                },
+                priority: 5,
+            };`);
+            await writeFile(join(dir, 'bad.mjs'), 'export const nothing = 1;');
+
+            const parser = new UniversalParser();
+            const loaded = await parser.loadAdapterModules(['./good.mjs', './bad.mjs', './missing.mjs'], dir);
+            expect(loaded).toBe(1);
+
+            const result = await parser.parse('anything', { ...source, type: 'acme' });
+            expect(result).toMatchObject({ success: true, contentType: 'acme' });
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should refuse URL and package specifiers without importing them', async () => {
+        const payload = `data:text/javascript,globalThis.omniwirePwned = true; export default { supportedTypes: ['x'], canParse: () => false, parse: async () => ({}) };`;
+
+        await expect(loadAdapterModule(payload)).rejects.toThrow('is a URL');
+        await expect(loadAdapterModule('https://evil.example/adapter.mjs')).rejects.toThrow('is a URL');
+        await expect(loadAdapterModule('file:///tmp/adapter.mjs')).rejects.toThrow('is a URL');
+        await expect(loadAdapterModule('@acme/omniwire-adapter')).rejects.toThrow('is a package name');
+
+        const parser = new UniversalParser();
+        expect(await parser.loadAdapterModules([payload])).toBe(0);
+        expect((globalThis as Record<string, unknown>).omniwirePwned).toBeUndefined();
+    });
+});
+
+
+describe('FetchLimiter', () => {
+    it('should queue tasks beyond the global concurrency cap', async () => {
+        const limiter = new FetchLimiter({ maxConcurrentFetches: 1, perHost: { requestsPerSecond: 1000, burst: 10 }, hosts: {} });
+        const events: string[] = [];
+        const task = (name: string) => async () => {
+            events.push(`start ${name}`);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            events.push(`end ${name}`);
+        };
+
+        await Promise.all([
+            limiter.schedule('http://a.com/1', task('a')),
+            limiter.schedule('http://b.com/1', task('b')),
+        ]);
+
+        expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('should space out requests to the same host', async () => {
+        const limiter = new FetchLimiter({ maxConcurrentFetches: 10, perHost: { requestsPerSecond: 20, burst: 1 }, hosts: {} });
+        const started: number[] = [];
+
+        await Promise.all([1, 2, 3].map(() =>
+            limiter.schedule('http://same.com/feed', async () => { started.push(Date.now()); })
+        ));
+
+        expect(started[2] - started[0]).toBeGreaterThanOrEqual(90);
+    });
+});
+
+describe('parseDateValue', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const iso = (value: unknown, format?: string) => parseDateValue(value, { format, now })?.date.toISOString();
+
+    it('should parse RFC 822 dates with zone abbreviations', () => {
+        expect(iso('Mon, 06 Sep 2021 16:45:00 EEST')).toBe('2021-09-06T13:45:00.000Z');
+        expect(iso('Mon, 06 Sep 2021 16:45:00 -0700')).toBe('2021-09-06T23:45:00.000Z');
+        expect(iso('2021-09-06T16:45:00+03:00')).toBe('2021-09-06T13:45:00.000Z');
+    });
+
+    it('should parse localized month names', () => {
+        expect(iso('Pzt, 06 Eyl 2021 16:45:00 +0300')).toBe('2021-09-06T13:45:00.000Z');
+        expect(iso('6 Ağustos 2026 Perşembe 14:30')).toBe('2026-08-06T14:30:00.000Z');
+        expect(iso('6. März 2026, 14:30 Uhr')).toBe('2026-03-06T14:30:00.000Z');
+        expect(iso('lundi 5 octobre 2026 à 9h05')).toBe('2026-10-05T09:05:00.000Z');
+        expect(iso('September 6th, 2021 at 4:45 pm')).toBe('2021-09-06T16:45:00.000Z');
+        expect(iso('19 Ekim 2026', 'D MMMM YYYY')).toBe('2026-10-19T00:00:00.000Z');
+    });
+
+    it('should parse epoch values and flag relative dates as inferred', () => {
+        expect(iso(1697000000)).toBe('2023-10-11T04:53:20.000Z');
+        expect(iso('1697000000000')).toBe('2023-10-11T04:53:20.000Z');
+        expect(parseDateValue(1697000000, { now })?.inferred).toBe(false);
+
+        const relative = parseDateValue('3 hours ago', { now });
+        expect(relative).toEqual({ date: new Date('2026-10-19T09:00:00Z'), inferred: true });
+        expect(iso('2 gün önce')).toBe('2026-10-17T12:00:00.000Z');
+        expect(iso('vor 5 Minuten')).toBe('2026-10-19T11:55:00.000Z');
+        expect(iso('il y a une heure')).toBe('2026-10-19T11:00:00.000Z');
+        expect(iso('yesterday 08:15')).toBe('2026-10-18T08:15:00.000Z');
+        expect(parseDateValue('12 Dec', { now })).toEqual({ date: new Date('2025-12-12T00:00:00Z'), inferred: true });
+        expect(parseDateValue('not a date', { now })).toBeUndefined();
+    });
+});
+
+describe('item IDs', () => {
+    it('should strip tracking parameters from links', () => {
+        expect(cleanUrl('https://Example.com:443/a/b?utm_source=rss&id=7&fbclid=x#top')).toBe('https://example.com/a/b?id=7');
+        expect(cleanUrl('https://example.com/a?utm_medium=feed')).toBe('https://example.com/a');
+        expect(cleanUrl('/relative/path')).toBe('/relative/path');
+    });
+
+    it('should give URL variants of the same article one ID', () => {
+        const id = createItemId('src', { link: 'https://www.example.com/story/1/?utm_source=rss' });
+        expect(id).toMatch(/^[0-9a-f]{32}$/);
+        expect(createItemId('src', { link: 'http://example.com/story/1' })).toBe(id);
+        expect(createItemId('src', { guid: 'https://example.com/story/1?utm_campaign=x' })).toBe(id);
+        expect(createItemId('other', { link: 'https://example.com/story/1' })).not.toBe(id);
+    });
+
+    it('should prefer GUIDs over links and resolve HTML links against the document', async () => {
+        const parser = new UniversalParser();
+        const source = { id: 'ids', type: 'auto' as const, url: 'http://test.com', name: 'IDs', priority: 1, enabled: true };
+        const xml = `<rss version="2.0"><channel><title>T</title>
+            <item><title>One</title><guid isPermaLink="false">tag:example.com,2026:1</guid><link>https://example.com/1?utm_source=rss</link></item>
+        </channel></rss>`;
+
+        const [item] = (await parser.parse(xml, source)).items;
+        expect(item.link).toBe('https://example.com/1');
+        expect(item.guid).toBe('tag:example.com,2026:1');
+        expect(item.id).toBe(createItemId('ids', { guid: 'tag:example.com,2026:1' }));
+
+        // Relative links follow the fetched document (or <base href>), never rel=canonical
+        const body = `<body>
+            <article><a href="story-1">Story one</a></article><article><a href="story-2">Story two</a></article>
+        </body>`;
+        const html = `<html><head><link rel="canonical" href="https://amp.example.com/list/"></head>${body}</html>`;
+        const result = await parser.parse(html, { ...source, type: 'html' }, 'text/html', { documentUrl: 'https://news.example.com/list/page/2' });
+        expect(result.items.map(i => i.link)).toEqual([
+            'https://news.example.com/list/page/story-1',
+            'https://news.example.com/list/page/story-2',
+        ]);
+
+        const based = await parser.parse(`<html><head><base href="/archive/"></head>${body}</html>`, { ...source, type: 'html' }, 'text/html', { documentUrl: 'https://news.example.com/list/page/2' });
+        expect(based.items[0].link).toBe('https://news.example.com/archive/story-1');
+    });
+
+    it('should give URL variants with the same rel=canonical one ID', async () => {
+        const parser = new UniversalParser();
+        const source: SourceConfig = { id: 'ids', type: 'auto', url: 'http://test.com', name: 'IDs', priority: 1, enabled: true };
+        const canonicalId = createItemId('ids', { link: 'https://example.com/story-1' });
+
+        const xml = `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel><title>T</title>
+            <item><title>Story</title><link>https://m.example.com/story-1</link><atom:link rel="canonical" href="https://example.com/story-1"/></item>
+            <item><title>Story (AMP)</title><link>https://amp.example.com/story-1</link><atom:link rel="canonical" href="https://example.com/story-1"/></item>
+        </channel></rss>`;
+        const { items } = await parser.parse(xml, source);
+        expect(items.map(item => item.link)).toEqual(['https://m.example.com/story-1', 'https://amp.example.com/story-1']);
+        expect(new Set(items.map(item => item.id))).toEqual(new Set([canonicalId]));
+
+        // An HTML item linking to the page itself takes the page's canonical
+        const html = `<html><head><link rel="canonical" href="https://example.com/story-1"></head><body>
+            <article><a href="/story-1">Story</a></article><article><a href="/story-2">Other</a></article>
+        </body></html>`;
+        const page = await parser.parse(html, { ...source, type: 'html' }, 'text/html', { documentUrl: 'https://m.example.com/story-1' });
+        expect(page.items[0].id).toBe(canonicalId);
+        expect(page.items[1].id).toBe(createItemId('ids', { link: 'https://m.example.com/story-2' }));
+    });
+});
+
+describe('XML parse limits', () => {
+    const limits = XmlLimitsSchema.parse({});
+    const source = { id: 'xml', type: 'auto' as const, url: 'http://test.com', name: 'XML', priority: 1, enabled: true };
+    const feed = `<rss version="2.0"><channel><title>T</title>
+        <item><title>One</title><link>https://example.com/1</link></item>
+    </channel></rss>`;
+
+    const limitOf = (content: string, overrides: Partial<typeof limits> = {}) => {
+        try {
+            checkXmlLimits(content, { ...limits, ...overrides });
+            return null;
+        } catch (error) {
+            return error instanceof XmlLimitError ? error.limit : 'other';
+        }
+    };
+
+    it('should refuse deep, large and entity-laden documents', () => {
+        expect(limitOf(feed)).toBeNull();
+        expect(limitOf('<a>'.repeat(20) + '</a>'.repeat(20), { maxDepth: 10 })).toBe('depth');
+        expect(limitOf(`<r>${'<i/>'.repeat(200)}</r>`, { maxElements: 100 })).toBe('elements');
+        expect(limitOf(feed, { maxBytes: 64 })).toBe('size');
+
+        const bomb = `<!DOCTYPE r [<!ENTITY big "${'x'.repeat(1000)}">]><r>${'&big;'.repeat(2000)}</r>`;
+        expect(limitOf(bomb)).toBeNull();
+        expect(limitOf(bomb, { maxBytes: 1024 * 1024 })).toBe('entities');
+        expect(limitOf('<!DOCTYPE r [<!ENTITY ext SYSTEM "file:///etc/passwd">]><r>&ext;</r>')).toBe('entities');
+
+        // Billion laughs: each level references the previous one ten times
+        const levels = Array.from({ length: 9 }, (_, n) => `<!ENTITY lol${n + 1} "${`&lol${n};`.repeat(10)}">`);
+        const laughs = `<!DOCTYPE r [<!ENTITY lol0 "lol">${levels.join('')}]><r>&lol9;</r>`;
+        expect(limitOf(laughs)).toBe('entities');
+        expect(limitOf('<!DOCTYPE r [<!ENTITY a "&b;"><!ENTITY b "&a;">]><r>&a;</r>')).toBe('entities');
+        expect(limitOf('<!DOCTYPE r [<!ENTITY a "x"><!ENTITY b "&a;&a;">]><r>&b;</r>')).toBeNull();
+
+        // Markup inside comments, CDATA and attribute values is not counted
+        expect(limitOf('<r><!-- <a><a><a> --><![CDATA[<b><b>]]><c title="<d>"/></r>', { maxDepth: 8, maxElements: 100 })).toBeNull();
+    });
+
+    it('should report violations as parse-limit errors', async () => {
+        const xml = new SafeXmlParser({ ...limits, maxElements: 100 });
+        const parser = new UniversalParser(new FetchLimiter(), xml);
+        const items = '<item><title>x</title></item>'.repeat(60);
+
+        const result = await parser.parse(`<rss version="2.0"><channel>${items}</channel></rss>`, source);
+        expect(result.success).toBe(false);
+        expect(result.errorKind).toBe('parse-limit');
+        expect(result.error).toContain('100 elements');
+
+        const ok = await parser.parse(feed, source);
+        expect(ok.success).toBe(true);
+        expect(ok.errorKind).toBeUndefined();
+    });
+
+    it('should parse in a worker thread and time out stuck parses', async () => {
+        const xml = new SafeXmlParser({ ...limits, useWorker: true });
+        try {
+            const result = await new UniversalParser(new FetchLimiter(), xml).parse(feed, source);
+            expect(result.items.map(item => item.title)).toEqual(['One']);
+
+            // A fresh worker cannot start up within 1ms
+            xml.close();
+            xml.configure({ ...limits, useWorker: true, timeoutMs: 1 });
+            await expect(xml.parse(feed, {})).rejects.toMatchObject({ limit: 'timeout' });
+
+            // The replacement worker picks up the next job
+            xml.configure({ ...limits, useWorker: true });
+            await expect(xml.parse('<a><b>1</b></a>', {})).resolves.toEqual({ a: { b: 1 } });
+        } finally {
+            xml.close();
+        }
+    });
+});
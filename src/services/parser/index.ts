@@ -1,101 +1,211 @@
 import { RSSAdapter } from './adapters/rss.js';
 import { JSONAdapter } from './adapters/json.js';
+import { JSONFeedAdapter } from './adapters/jsonfeed.js';
 import { HTMLAdapter } from './adapters/html.js';
-import { ContentAdapter, ContentType, ParseResult } from './types.js';
-import { SourceConfig } from '../../config/schema.js';
+import { SitemapAdapter } from './adapters/sitemap.js';
+import {
+    AdapterRegistration,
+    CachedResponse,
+    ContentAdapter,
+    ContentType,
+    Detection,
+    FetchedDocument,
+    FetchOptions,
+    FetchOutcome,
+    ParseContext,
+    ParseResult,
+} from './types.js';
+import { buildSourceRequest } from './request.js';
+import { DEFAULT_MAX_RESPONSE_BYTES, decodeBody, readBodyWithLimit } from './decode.js';
+import { FetchLimiter } from './limiter.js';
+import { SafeXmlParser } from './xml.js';
+import { FetchError, computeBackoff, isRetryable, parseRetryAfter, resolveRetryPolicy, sleep } from './retry.js';
+import { FetchedPage, resolveNextPageUrl } from './pagination.js';
+import { normalizeItemContent } from './normalize.js';
+import { cleanUrl } from './ids.js';
+import { loadAdapterModule } from './plugins.js';
+import { Pagination, SitemapOptionsSchema, SourceConfig } from '../../config/schema.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger('UniversalParser');
 
+/** Priority given to custom adapters registered without one */
+const DEFAULT_CUSTOM_PRIORITY = 10;
+
+/** detect() score a self-scoring adapter needs to claim content by default */
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+/** Score for adapters without detect() whose canParse() accepts the content */
+const FALLBACK_CONFIDENCE = 0.3;
+
+interface RegisteredAdapter {
+    adapter: ContentAdapter;
+    priority: number;
+    minConfidence: number;
+}
+
+interface AdapterMatch {
+    adapter: ContentAdapter;
+    detection: Detection;
+}
+
 /**
  * Universal Parser: Smart Content Sniffing and Adaptation
  * 
  * Features:
- * - Automatic content type detection
+ * - Confidence-scored content type detection across all adapters
  * - Routes to appropriate adapter
  * - Normalizes all content to NewsItem format
  * - Error-tolerant parsing
+ * - Conditional GET (ETag / Last-Modified) per source
+ * - Per-source authentication and custom headers
+ * - Charset-aware decoding with response size limits
+ * - Retry with exponential backoff and Retry-After support
+ * - Global concurrency cap and per-host rate limiting (FetchLimiter)
+ * - Pagination for JSON APIs and paged feeds
+ * - Sitemap index following with depth and fan-out limits
+ * - XML parse limits against hostile feeds (SafeXmlParser)
+ * - Adapter registry for custom formats (registerAdapter / loadAdapterModules)
  */
 export class UniversalParser {
-    private adapters: ContentAdapter[];
+    private adapters: RegisteredAdapter[] = [];
+    private responseCache: Map<string, CachedResponse> = new Map();
+    /** Sources whose last fetch was scraped as HTML */
+    private htmlSources: Set<string> = new Set();
 
-    constructor() {
-        // Order matters - RSS first (most common), then JSON, then HTML
-        this.adapters = [
-            new RSSAdapter(),
+    constructor(
+        private readonly limiter: FetchLimiter = new FetchLimiter(),
+        xml: SafeXmlParser = new SafeXmlParser()
+    ) {
+        // Order matters - sitemaps before RSS (which accepts any XML), JSON Feed before generic JSON, then HTML
+        const builtIns = [
+            new SitemapAdapter(xml),
+            new RSSAdapter(xml),
+            new JSONFeedAdapter(),
             new JSONAdapter(),
             new HTMLAdapter(),
         ];
+        for (const adapter of builtIns) {
+            this.registerAdapter(adapter, { priority: 0, minConfidence: 0 });
+        }
     }
 
     /**
-     * Detect content type from content and headers
+     * Register a content adapter
+     *
+     * Adapters are consulted by descending priority, then registration
+     * order. Custom adapters are selected by a source `type` naming one of
+     * their supportedTypes, or claim auto-detected content when their
+     * detect() score reaches minConfidence.
      */
-    public detectContentType(content: string, contentTypeHeader?: string): ContentType {
-        // Check explicit type hint in header
-        if (contentTypeHeader) {
-            const lower = contentTypeHeader.toLowerCase();
-            if (lower.includes('rss') || lower.includes('atom')) return ContentType.RSS;
-            if (lower.includes('json')) return ContentType.JSON;
-            if (lower.includes('html')) return ContentType.HTML;
-            if (lower.includes('xml')) {
-                // Could be RSS or Atom
-                return content.includes('<feed') ? ContentType.ATOM : ContentType.RSS;
-            }
+    public registerAdapter(adapter: ContentAdapter, options: AdapterRegistration = {}): void {
+        const priority = options.priority ?? DEFAULT_CUSTOM_PRIORITY;
+        const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+        if (!Number.isFinite(priority)) {
+            throw new Error(`Invalid adapter priority: ${priority}`);
         }
-
-        // Sniff content
-        const trimmed = content.trim();
-
-        // XML-based (RSS/Atom)
-        if (trimmed.startsWith('<?xml') || trimmed.startsWith('<rss') || trimmed.startsWith('<feed')) {
-            return trimmed.includes('<feed') ? ContentType.ATOM : ContentType.RSS;
+        if (!(minConfidence >= 0 && minConfidence <= 1)) {
+            throw new Error(`Adapter minConfidence must be between 0 and 1, got ${minConfidence}`);
         }
 
-        // JSON
-        if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
-            return ContentType.JSON;
+        const index = this.adapters.findIndex(entry => entry.priority < priority);
+        const entry = { adapter, priority, minConfidence };
+        if (index === -1) {
+            this.adapters.push(entry);
+        } else {
+            this.adapters.splice(index, 0, entry);
         }
+        logger.debug(`Registered adapter for ${adapter.supportedTypes.join(', ')} (priority ${priority})`);
+    }
 
-        // HTML
-        if (trimmed.toLowerCase().startsWith('<!doctype') || trimmed.toLowerCase().startsWith('<html')) {
-            return ContentType.HTML;
+    /**
+     * Load and register custom adapters from module file paths
+     *
+     * Relative paths resolve against baseDir (default: the working
+     * directory); URLs and package names are refused. A module that fails to load is logged and skipped, so one broken
+     * adapter does not keep the server from starting.
+     *
+     * @returns number of adapters registered
+     */
+    public async loadAdapterModules(specifiers: string[], baseDir?: string): Promise<number> {
+        let loaded = 0;
+        for (const specifier of specifiers) {
+            try {
+                const { adapter, registration } = await loadAdapterModule(specifier, baseDir);
+                this.registerAdapter(adapter, registration);
+                loaded++;
+                logger.info(`Loaded adapter module ${specifier} (${adapter.supportedTypes.join(', ')})`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                logger.error(`Failed to load adapter module ${specifier}: ${message}`);
+            }
         }
+        return loaded;
+    }
 
-        return ContentType.UNKNOWN;
+    /**
+     * Detect content type from content and headers
+     *
+     * Every adapter scores the content with structural probes and the
+     * highest confidence wins (ties go to the higher-priority adapter).
+     */
+    public detectContentType(content: string, contentTypeHeader?: string): ContentType | string {
+        return this.sniff(content, contentTypeHeader)?.detection.type ?? ContentType.UNKNOWN;
     }
 
     /**
      * Parse content from a source
+     *
+     * context.documentUrl is where the content was actually fetched from
+     * (after redirects); relative links resolve against it, falling back to
+     * the source URL. context.robots is consulted whenever content is
+     * detected as HTML, whatever the source type says, so sniffed pages
+     * are not scraped against robots.txt.
      */
     public async parse(
         content: string,
         source: SourceConfig,
-        contentTypeHeader?: string
+        contentTypeHeader?: string,
+        context: ParseContext = {}
     ): Promise<ParseResult> {
-        // Determine content type
-        let contentType: ContentType;
+        let match = source.type === 'auto'
+            ? this.sniff(content, contentTypeHeader)
+            : this.findExplicitAdapter(source.type, content, contentTypeHeader);
 
-        if (source.type === 'auto') {
-            contentType = this.detectContentType(content, contentTypeHeader);
-        } else {
-            contentType = source.type as ContentType;
+        // A stale explicit type (e.g. "rss" for a page that is now HTML) falls back to sniffing
+        if (!match && source.type !== 'auto' && this.isBuiltInType(source.type)) {
+            logger.debug(`${source.id} does not look like ${source.type}, sniffing instead`);
+            match = this.sniff(content, contentTypeHeader);
         }
 
-        logger.debug(`Parsing ${source.id} as ${contentType}`);
-
-        // Find appropriate adapter
-        const adapter = this.findAdapter(content, contentType, contentTypeHeader);
-
-        if (!adapter) {
+        if (!match) {
             return {
                 success: false,
                 items: [],
                 contentType: ContentType.UNKNOWN,
-                error: `No adapter found for content type: ${contentType}`,
+                error: `No adapter found for content type: ${source.type === 'auto' ? ContentType.UNKNOWN : source.type}`,
             };
         }
 
+        const { adapter, detection } = match;
+        const documentUrl = context.documentUrl ?? source.url;
+
+        if (detection.type === ContentType.HTML && context.robots) {
+            const decision = await context.robots(documentUrl);
+            if (!decision.allowed) {
+                return {
+                    success: false,
+                    items: [],
+                    contentType: ContentType.HTML,
+                    detection,
+                    error: decision.reason ?? 'Disallowed by robots.txt',
+                    errorKind: 'robots',
+                };
+            }
+        }
+
+        logger.debug(`Parsing ${source.id} as ${detection.type} (confidence ${detection.confidence.toFixed(2)})`);
+
         // Parse with options
         const result = await adapter.parse(
             content,
@@ -103,10 +213,28 @@ export class UniversalParser {
             source.name,
             {
                 selector: source.selector,
-                baseUrl: source.url,
+                baseUrl: documentUrl,
+                pagination: source.pagination,
+                mapping: source.mapping,
+                selectors: source.selectors,
+                dateFormat: source.dateFormat,
             }
         );
 
+        // Drop tracking parameters from links, sanitize HTML and add text / Markdown forms
+        result.items = result.items.map(item => normalizeItemContent({ ...item, link: cleanUrl(item.link) }));
+        result.detection = detection;
+        result.adapter = adapter.name ?? adapter.constructor.name;
+
+        const warnings = result.warnings ?? [];
+        const skipped = warnings.filter(warning => warning.kind === 'item-skipped').length;
+        if (skipped > 0) {
+            logger.warn(`Skipped ${skipped} of ${result.items.length + skipped} entries from ${source.id}`);
+        }
+        if (result.success && result.items.length === 0 && warnings.length === 0 && !result.sitemaps?.length) {
+            result.warnings = [...warnings, { kind: 'document', message: 'Document parsed but contained no items' }];
+        }
+
         logger.info(`Parsed ${result.items.length} items from ${source.id}`);
 
         return result;
@@ -114,41 +242,80 @@ export class UniversalParser {
 
     /**
      * Fetch and parse a source
+     *
+     * Sends If-None-Match / If-Modified-Since when validators from a previous
+     * successful fetch are known; a 304 reuses the previously parsed items.
+     * Transient failures are retried per the retry policy, so callers only
+     * see (and report to Sentinel) the final outcome. With options.robots,
+     * every page scraped as HTML is checked against robots.txt; a disallowed
+     * first page fails with errorKind "robots".
      */
     public async fetchAndParse(
         source: SourceConfig,
-        timeoutMs: number = 10000
-    ): Promise<{ result: ParseResult; responseTimeMs: number }> {
+        timeoutMs: number = 10000,
+        options: FetchOptions = {}
+    ): Promise<FetchOutcome> {
         const startTime = Date.now();
+        let attempts = 0;
 
         try {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), timeoutMs);
+            const cached = this.getCachedResponse(source);
+            const headers: Record<string, string> = {};
+            if (cached?.etag) headers['If-None-Match'] = cached.etag;
+            if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
 
-            const response = await fetch(source.url, {
-                signal: controller.signal,
-                headers: {
-                    'Accept': 'application/rss+xml, application/atom+xml, application/json, text/html, */*',
-                    'User-Agent': 'OmniWire-MCP/1.0 (News Aggregator)',
-                },
-            });
+            const expectHtml = source.type === ContentType.HTML || this.htmlSources.has(source.id);
+            const blocked = expectHtml ? await this.robotsBlock(source.url, options) : null;
+            if (blocked) {
+                return { result: blocked, responseTimeMs: Date.now() - startTime, attempts };
+            }
 
-            clearTimeout(timeout);
+            const document = await this.fetchDocument(source, timeoutMs, { ...options, headers });
+            attempts = document.attempts;
 
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            if (document.notModified) {
+                if (!cached) {
+                    throw new Error('HTTP 304 received without a cached response');
+                }
+                logger.debug(`${source.id} not modified, reusing ${cached.result.items.length} cached items`);
+                return { result: cached.result, responseTimeMs: Date.now() - startTime, notModified: true, attempts };
             }
 
-            const content = await response.text();
-            const contentTypeHeader = response.headers.get('content-type') || undefined;
+            let result = await this.parse(document.content, source, document.contentType, {
+                documentUrl: document.url,
+                // Already checked before fetching
+                robots: expectHtml ? undefined : options.robots,
+            });
+            let pages = 1;
+
+            if (result.detection?.type === ContentType.HTML) this.htmlSources.add(source.id);
+            else if (result.detection) this.htmlSources.delete(source.id);
+
+            if (result.success && result.sitemaps?.length) {
+                const followed = await this.fetchChildSitemaps(source, result, timeoutMs, options);
+                result = followed.result;
+                pages += followed.pages;
+                attempts += followed.attempts;
+            } else if (result.success && source.pagination) {
+                const paged = await this.fetchRemainingPages(source, source.pagination, document, result, timeoutMs, options);
+                result = paged.result;
+                pages = paged.pages;
+                attempts += paged.attempts;
+            }
 
-            const result = await this.parse(content, source, contentTypeHeader);
             const responseTimeMs = Date.now() - startTime;
 
-            return { result, responseTimeMs };
+            if (result.success) {
+                this.cacheResponse(source, document.headers, result);
+            }
+
+            return { result, responseTimeMs, attempts, pages };
         } catch (error) {
             const responseTimeMs = Date.now() - startTime;
             const message = error instanceof Error ? error.message : 'Unknown error';
+            if (error instanceof FetchError && error.attempts) {
+                attempts = error.attempts;
+            }
 
             logger.error(`Failed to fetch ${source.id}: ${message}`);
 
@@ -160,38 +327,400 @@ export class UniversalParser {
                     error: message,
                 },
                 responseTimeMs,
+                attempts,
             };
         }
     }
 
     /**
-     * Find the best adapter for the content
+     * Fetch a source's body without parsing it
+     *
+     * Applies auth, rate limits, retries, the size cap and charset decoding.
+     * Throws FetchError once retries are exhausted.
      */
-    private findAdapter(
-        content: string,
-        detectedType: ContentType,
-        contentTypeHeader?: string
-    ): ContentAdapter | null {
-        // First, try to find adapter for detected type
-        for (const adapter of this.adapters) {
-            if (adapter.supportedTypes.includes(detectedType) && adapter.canParse(content, contentTypeHeader)) {
-                return adapter;
+    public async fetchDocument(
+        source: SourceConfig,
+        timeoutMs: number = 10000,
+        options: FetchOptions = {}
+    ): Promise<FetchedDocument> {
+        const startTime = Date.now();
+        const policy = resolveRetryPolicy(options.retry, source.retry);
+        const { url, headers } = buildSourceRequest(source);
+        Object.assign(headers, options.headers);
+
+        const maxBytes = source.maxResponseBytes ?? options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+
+        let attempts = 0;
+        let fetched: { response: Response; body: Uint8Array };
+        for (;;) {
+            attempts++;
+            try {
+                fetched = await this.limiter.schedule(
+                    url,
+                    () => this.fetchOnce(url, headers, timeoutMs, maxBytes)
+                );
+                break;
+            } catch (error) {
+                const fetchError = FetchError.from(error);
+                fetchError.attempts = attempts;
+                if (attempts >= policy.maxAttempts || !isRetryable(fetchError, policy)) {
+                    throw fetchError;
+                }
+
+                const backoff = computeBackoff(attempts, policy);
+                const delay = Math.max(backoff, fetchError.retryAfterMs ?? 0);
+                if (delay > policy.maxDelayMs) {
+                    const exhausted = new FetchError(
+                        `${fetchError.message} (Retry-After ${Math.ceil(delay / 1000)}s exceeds retry budget)`,
+                        fetchError.kind,
+                        fetchError.status
+                    );
+                    exhausted.attempts = attempts;
+                    throw exhausted;
+                }
+
+                logger.warn(
+                    `Attempt ${attempts}/${policy.maxAttempts} for ${source.id} failed: ` +
+                    `${fetchError.message}, retrying in ${delay}ms`
+                );
+                await sleep(delay);
+            }
+        }
+
+        const { response, body } = fetched;
+        const contentType = response.headers.get('content-type') || undefined;
+
+        return {
+            url: response.url || url,
+            status: response.status,
+            headers: response.headers,
+            contentType,
+            content: response.status === 304 ? '' : decodeBody(body, contentType),
+            notModified: response.status === 304,
+            attempts,
+            responseTimeMs: Date.now() - startTime,
+        };
+    }
+
+    /**
+     * Follow pagination after the first page
+     *
+     * Stops at maxPages, when no next page is advertised, when a page holds
+     * an already-known item (stopAtKnown), or when a page adds nothing new.
+     * A failing later page keeps the items collected so far.
+     */
+    private async fetchRemainingPages(
+        source: SourceConfig,
+        pagination: Pagination,
+        first: FetchedDocument,
+        firstResult: ParseResult,
+        timeoutMs: number,
+        options: FetchOptions
+    ): Promise<{ result: ParseResult; pages: number; attempts: number }> {
+        const items = [...firstResult.items];
+        const seen = new Set(items.map(item => item.id));
+        const origin = new URL(source.url).origin;
+        let last: FetchedPage = { url: first.url, headers: first.headers, result: firstResult };
+        let pages = 1;
+        let attempts = 0;
+
+        while (pages < pagination.maxPages) {
+            const known = options.knownItemIds;
+            if (pagination.stopAtKnown && known && last.result.items.some(item => known.has(item.id))) {
+                logger.debug(`${source.id} reached known items after ${pages} page(s)`);
+                break;
+            }
+
+            const nextUrl = resolveNextPageUrl(pagination, source.url, last, pages + 1, items.length);
+            if (!nextUrl) break;
+
+            // Never send source credentials to another origin
+            if (new URL(nextUrl).origin !== origin) {
+                logger.warn(`Ignoring cross-origin next page for ${source.id}: ${nextUrl}`);
+                break;
+            }
+
+            // Pages after an HTML page are HTML too, so robots.txt is asked before fetching them
+            const expectHtml = last.result.contentType === ContentType.HTML;
+            const blocked = expectHtml ? await this.robotsBlock(nextUrl, options) : null;
+            if (blocked) {
+                logger.warn(`Stopping pagination for ${source.id}: ${blocked.error}`);
+                break;
+            }
+
+            try {
+                const pageSource = { ...source, url: nextUrl };
+                const document = await this.fetchDocument(pageSource, timeoutMs, { ...options, headers: undefined });
+                attempts += document.attempts;
+
+                const result = await this.parse(document.content, pageSource, document.contentType, {
+                    documentUrl: document.url,
+                    robots: expectHtml ? undefined : options.robots,
+                });
+                if (!result.success) break;
+                pages++;
+
+                const fresh = result.items.filter(item => !seen.has(item.id));
+                if (fresh.length === 0) break;
+
+                for (const item of fresh) {
+                    seen.add(item.id);
+                    items.push(item);
+                }
+                last = { url: document.url, headers: document.headers, result };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                logger.warn(`Stopping pagination for ${source.id} at page ${pages + 1}: ${message}`);
+                if (error instanceof FetchError && error.attempts) attempts += error.attempts;
+                break;
             }
         }
 
-        // Fallback: try all adapters
-        for (const adapter of this.adapters) {
-            if (adapter.canParse(content, contentTypeHeader)) {
-                return adapter;
+        return { result: { ...firstResult, items }, pages, attempts };
+    }
+
+    /**
+     * Fetch the child sitemaps listed by a sitemap index
+     *
+     * Walks nested indexes breadth-first up to sitemap.maxDepth levels and
+     * fetches at most sitemap.maxSitemaps files, newest first. Cross-origin
+     * children are skipped so source credentials stay on their origin; a
+     * failing child is logged and skipped.
+     */
+    private async fetchChildSitemaps(
+        source: SourceConfig,
+        index: ParseResult,
+        timeoutMs: number,
+        options: FetchOptions
+    ): Promise<{ result: ParseResult; pages: number; attempts: number }> {
+        const { maxDepth, maxSitemaps } = SitemapOptionsSchema.parse(source.sitemap ?? {});
+        const items = [...index.items];
+        const seen = new Set(items.map(item => item.id));
+        const visited = new Set([source.url]);
+        const origin = new URL(source.url).origin;
+        const queue = (index.sitemaps ?? []).map(url => ({ url: new URL(url, source.url).href, depth: 1 }));
+        let pages = 0;
+        let attempts = 0;
+
+        while (queue.length > 0 && pages < maxSitemaps) {
+            const { url, depth } = queue.shift()!;
+            if (depth > maxDepth || visited.has(url)) continue;
+            visited.add(url);
+
+            if (new URL(url).origin !== origin) {
+                logger.warn(`Ignoring cross-origin sitemap for ${source.id}: ${url}`);
+                continue;
+            }
+
+            try {
+                const childSource = { ...source, url };
+                const document = await this.fetchDocument(childSource, timeoutMs, { ...options, headers: undefined });
+                attempts += document.attempts;
+                pages++;
+
+                const result = await this.parse(document.content, childSource, document.contentType, { documentUrl: document.url, robots: options.robots });
+                if (!result.success) {
+                    logger.warn(`Skipping sitemap ${url} for ${source.id}: ${result.error}`);
+                    continue;
+                }
+
+                for (const item of result.items) {
+                    if (seen.has(item.id)) continue;
+                    seen.add(item.id);
+                    items.push(item);
+                }
+                for (const child of result.sitemaps ?? []) {
+                    queue.push({ url: new URL(child, document.url).href, depth: depth + 1 });
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                logger.warn(`Skipping sitemap ${url} for ${source.id}: ${message}`);
+                if (error instanceof FetchError && error.attempts) attempts += error.attempts;
+            }
+        }
+
+        if (queue.some(entry => entry.depth <= maxDepth && !visited.has(entry.url))) {
+            logger.debug(`${source.id} reached the sitemap limit (${maxSitemaps}), skipping the rest`);
+        }
+
+        return { result: { ...index, items, sitemaps: undefined }, pages, attempts };
+    }
+
+    /**
+     * Perform a single HTTP attempt and read the body
+     *
+     * Throws FetchError for non-2xx/304 responses so the caller can decide
+     * whether to retry.
+     */
+    private async fetchOnce(
+        url: string,
+        headers: Record<string, string>,
+        timeoutMs: number,
+        maxBytes: number
+    ): Promise<{ response: Response; body: Uint8Array }> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+            const response = await fetch(url, {
+                signal: controller.signal,
+                headers,
+            });
+
+            if (response.status === 304) {
+                return { response, body: new Uint8Array(0) };
             }
+
+            if (!response.ok) {
+                await response.body?.cancel();
+                const retryAfterMs = response.status === 429 || response.status === 503
+                    ? parseRetryAfter(response.headers.get('retry-after'))
+                    : undefined;
+                throw new FetchError(
+                    `HTTP ${response.status}: ${response.statusText}`,
+                    'http',
+                    response.status,
+                    retryAfterMs
+                );
+            }
+
+            // Keep the timeout armed while the body streams in
+            const body = await readBodyWithLimit(response, maxBytes);
+            return { response, body };
+        } finally {
+            clearTimeout(timeout);
         }
+    }
 
+    /**
+     * Ask robots.txt about a page before fetching it
+     *
+     * @returns a failed result when the page is disallowed, else null
+     */
+    private async robotsBlock(url: string, options: FetchOptions): Promise<ParseResult | null> {
+        if (!options.robots) return null;
+        const decision = await options.robots(url);
+        if (decision.allowed) return null;
+        return {
+            success: false,
+            items: [],
+            contentType: ContentType.HTML,
+            error: decision.reason ?? 'Disallowed by robots.txt',
+            errorKind: 'robots',
+        };
+    }
+
+    /**
+     * Forget cached validators for one source, or all sources
+     */
+    public clearCache(sourceId?: string): void {
+        if (sourceId) {
+            this.responseCache.delete(sourceId);
+        } else {
+            this.responseCache.clear();
+        }
+    }
+
+    /**
+     * Get cached validators if they still belong to the source URL
+     */
+    private getCachedResponse(source: SourceConfig): CachedResponse | null {
+        const cached = this.responseCache.get(source.id);
+        if (!cached || cached.url !== source.url) return null;
+        return cached;
+    }
+
+    /**
+     * Remember validators from a successful response
+     */
+    private cacheResponse(source: SourceConfig, headers: Headers, result: ParseResult): void {
+        const etag = headers.get('etag') || undefined;
+        const lastModified = headers.get('last-modified') || undefined;
+
+        if (!etag && !lastModified) {
+            this.responseCache.delete(source.id);
+            return;
+        }
+
+        this.responseCache.set(source.id, {
+            url: source.url,
+            etag,
+            lastModified,
+            result,
+        });
+    }
+
+    /**
+     * Score the content with every adapter and return the most confident one
+     */
+    private sniff(content: string, contentTypeHeader?: string): AdapterMatch | null {
+        let best: AdapterMatch | null = null;
+
+        for (const entry of this.adapters) {
+            const detection = this.score(entry.adapter, content, contentTypeHeader);
+            if (detection.confidence <= 0 || detection.confidence < entry.minConfidence) continue;
+            if (!best || detection.confidence > best.detection.confidence) {
+                best = { adapter: entry.adapter, detection };
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Adapter for an explicit source type
+     *
+     * Built-in types still have to pass canParse(); custom types go
+     * straight to the adapter registered for them.
+     */
+    private findExplicitAdapter(type: string, content: string, contentTypeHeader?: string): AdapterMatch | null {
+        const builtIn = this.isBuiltInType(type);
+        for (const { adapter } of this.adapters) {
+            if (!adapter.supportedTypes.includes(type)) continue;
+            if (builtIn && !adapter.canParse(content, contentTypeHeader)) continue;
+            return { adapter, detection: { type, confidence: 1 } };
+        }
         return null;
     }
+
+    /**
+     * Run one adapter's detect(), clamped to 0-1
+     */
+    private score(adapter: ContentAdapter, content: string, contentTypeHeader?: string): Detection {
+        const type = adapter.supportedTypes[0] ?? ContentType.UNKNOWN;
+        if (!adapter.detect) {
+            return { type, confidence: adapter.canParse(content, contentTypeHeader) ? FALLBACK_CONFIDENCE : 0 };
+        }
+
+        let result: number | Detection;
+        try {
+            result = adapter.detect(content, contentTypeHeader);
+        } catch (error) {
+            logger.warn(`Adapter for ${type} failed to score content: ${error}`);
+            return { type, confidence: 0 };
+        }
+
+        const detection = typeof result === 'number' ? { type, confidence: result } : result;
+        const confidence = Number.isFinite(detection.confidence) ? Math.min(Math.max(detection.confidence, 0), 1) : 0;
+        return { type: detection.type, confidence };
+    }
+
+    private isBuiltInType(type: string): boolean {
+        return (Object.values(ContentType) as string[]).includes(type);
+    }
 }
 
 // Export types
 export * from './types.js';
 export { RSSAdapter } from './adapters/rss.js';
 export { JSONAdapter } from './adapters/json.js';
+export { JSONFeedAdapter } from './adapters/jsonfeed.js';
 export { HTMLAdapter } from './adapters/html.js';
+export { SitemapAdapter } from './adapters/sitemap.js';
+export { FetchLimiter } from './limiter.js';
+export { SafeXmlParser, XmlLimitError, checkXmlLimits } from './xml.js';
+export type { XmlLimitName } from './xml.js';
+export { FetchError } from './retry.js';
+export { withContentFormat } from './normalize.js';
+export { loadAdapterModule } from './plugins.js';
+export type { AdapterModuleExport, LoadedAdapter } from './plugins.js';
@@ -0,0 +1,141 @@
+import { FetchLimits, FetchLimitsSchema, HostRateLimit } from '../../config/schema.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('FetchLimiter');
+
+interface TokenBucket {
+    tokens: number;
+    lastRefill: number;
+}
+
+/**
+ * Fetch Limiter: Outgoing request throttling
+ *
+ * Features:
+ * - Global cap on concurrent fetches (FIFO queue, nothing is dropped)
+ * - Token bucket per host, so sources sharing a host are spaced out
+ * - Limits can be swapped at runtime on config change
+ */
+export class FetchLimiter {
+    private limits: FetchLimits;
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private buckets: Map<string, TokenBucket> = new Map();
+    private hostQueues: Map<string, Promise<void>> = new Map();
+
+    constructor(limits: FetchLimits = FetchLimitsSchema.parse({})) {
+        this.limits = limits;
+    }
+
+    /**
+     * Replace the active limits (existing buckets are kept)
+     */
+    public configure(limits: FetchLimits): void {
+        this.limits = limits;
+        // Wake queued tasks if the global cap was raised
+        while (this.active < this.limits.maxConcurrentFetches && this.waiting.length > 0) {
+            this.active++;
+            this.waiting.shift()!();
+        }
+    }
+
+    /**
+     * Run a task once a host token and a global slot are available
+     */
+    public async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+        await this.acquireHostToken(this.hostOf(url));
+        await this.acquireSlot();
+
+        try {
+            return await task();
+        } finally {
+            this.releaseSlot();
+        }
+    }
+
+    /**
+     * Current queue state, for diagnostics
+     */
+    public getStats(): { active: number; queued: number } {
+        return { active: this.active, queued: this.waiting.length };
+    }
+
+    private acquireSlot(): Promise<void> {
+        if (this.active < this.limits.maxConcurrentFetches) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private releaseSlot(): void {
+        // Hand the slot straight to the next waiter unless the cap was lowered
+        if (this.active <= this.limits.maxConcurrentFetches) {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+                return;
+            }
+        }
+        this.active--;
+    }
+
+    /**
+     * Take one token from the host bucket, waiting in line behind earlier callers
+     */
+    private acquireHostToken(host: string): Promise<void> {
+        const previous = this.hostQueues.get(host) ?? Promise.resolve();
+        const mine = previous.then(() => this.takeToken(host));
+        this.hostQueues.set(host, mine);
+
+        void mine.then(() => {
+            if (this.hostQueues.get(host) === mine) this.hostQueues.delete(host);
+        });
+
+        return mine;
+    }
+
+    private async takeToken(host: string): Promise<void> {
+        const rate = this.rateFor(host);
+
+        for (;;) {
+            const bucket = this.refill(host, rate);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return;
+            }
+
+            const waitMs = Math.ceil(((1 - bucket.tokens) / rate.requestsPerSecond) * 1000);
+            logger.debug(`Rate limit reached for ${host}, waiting ${waitMs}ms`);
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+    }
+
+    private refill(host: string, rate: HostRateLimit): TokenBucket {
+        const now = Date.now();
+        let bucket = this.buckets.get(host);
+
+        if (!bucket) {
+            bucket = { tokens: rate.burst, lastRefill: now };
+            this.buckets.set(host, bucket);
+            return bucket;
+        }
+
+        const elapsedSec = (now - bucket.lastRefill) / 1000;
+        bucket.tokens = Math.min(rate.burst, bucket.tokens + elapsedSec * rate.requestsPerSecond);
+        bucket.lastRefill = now;
+        return bucket;
+    }
+
+    private rateFor(host: string): HostRateLimit {
+        return this.limits.hosts[host] ?? this.limits.perHost;
+    }
+
+    private hostOf(url: string): string {
+        try {
+            return new URL(url).hostname.toLowerCase();
+        } catch {
+            return url;
+        }
+    }
+}
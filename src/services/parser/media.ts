@@ -0,0 +1,70 @@
+import { MediaEnclosure, MediaType } from './types.js';
+
+/**
+ * Work out the media kind from a MIME type and/or a Media RSS medium,
+ * falling back to the file extension when neither is given
+ */
+export function inferMediaType(mimeType?: string, medium?: string, url?: string): MediaType {
+    const hint = (medium || mimeType?.split('/')[0] || '').toLowerCase();
+    switch (hint) {
+        case 'audio':
+        case 'video':
+        case 'image':
+        case 'document':
+            return hint;
+        case 'text':
+            return 'document';
+    }
+    if (mimeType?.toLowerCase() === 'application/pdf') return 'document';
+    if (!mimeType && !medium && url) {
+        // Some podcast feeds omit the type entirely
+        if (/\.(mp3|m4a|aac|ogg|oga|opus|wav|flac)(\?|$)/i.test(url)) return 'audio';
+        if (/\.(mp4|m4v|mov|webm|mkv)(\?|$)/i.test(url)) return 'video';
+        if (/\.(jpe?g|png|gif|webp|avif)(\?|$)/i.test(url)) return 'image';
+    }
+    return 'other';
+}
+
+/**
+ * Parse a duration given as seconds, "MM:SS" or "HH:MM:SS"
+ */
+export function parseDuration(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const str = String(value).trim();
+
+    if (/^\d+(\.\d+)?$/.test(str)) return Math.round(Number(str));
+
+    const parts = str.split(':');
+    if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return undefined;
+    return Math.round(parts.reduce((total, part) => total * 60 + Number(part), 0));
+}
+
+/**
+ * Parse a positive integer attribute (length, width, ...)
+ */
+export function parseNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const num = Number(value);
+    return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/**
+ * Merge enclosures sharing a URL, keeping the first non-empty value per field
+ */
+export function dedupeEnclosures(enclosures: MediaEnclosure[]): MediaEnclosure[] {
+    const byUrl = new Map<string, MediaEnclosure>();
+    for (const enclosure of enclosures) {
+        const existing = byUrl.get(enclosure.url);
+        if (!existing) {
+            byUrl.set(enclosure.url, { ...enclosure });
+            continue;
+        }
+        for (const [key, value] of Object.entries(enclosure) as Array<[keyof MediaEnclosure, unknown]>) {
+            if (value === undefined) continue;
+            if (existing[key] === undefined || (key === 'medium' && existing.medium === 'other')) {
+                (existing as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+    return [...byUrl.values()];
+}
@@ -0,0 +1,51 @@
+import { htmlToMarkdown, htmlToText, sanitizeHtml } from '../../utils/html.js';
+import { ContentFormat, NewsItem } from './types.js';
+
+/**
+ * Sanitize item HTML and attach text / Markdown renderings
+ *
+ * Runs on every parsed item, so stored descriptions and content never
+ * carry scripts, inline styles or tracking pixels.
+ */
+export function normalizeItemContent(item: NewsItem): NewsItem {
+    if (!item.description && !item.content) return item;
+
+    const baseUrl = item.link || undefined;
+    const description = clean(item.description, baseUrl);
+    const content = clean(item.content, baseUrl);
+
+    return {
+        ...item,
+        description,
+        content,
+        rendered: {
+            text: {
+                description: description && htmlToText(description, baseUrl),
+                content: content && htmlToText(content, baseUrl),
+            },
+            markdown: {
+                description: description && htmlToMarkdown(description, baseUrl),
+                content: content && htmlToMarkdown(content, baseUrl),
+            },
+        },
+    };
+}
+
+/**
+ * Return an item with description/content in the requested form
+ */
+export function withContentFormat(item: NewsItem, format: ContentFormat): Omit<NewsItem, 'rendered'> {
+    const { rendered, ...rest } = item;
+    if (format === 'html' || !rendered) return rest;
+
+    return {
+        ...rest,
+        description: rendered[format].description,
+        content: rendered[format].content,
+    };
+}
+
+function clean(html: string | undefined, baseUrl?: string): string | undefined {
+    if (!html) return undefined;
+    return sanitizeHtml(html, baseUrl) || undefined;
+}
@@ -0,0 +1,75 @@
+import { Pagination } from '../../config/schema.js';
+import { ParseResult } from './types.js';
+
+/**
+ * The page most recently fetched, as seen by the paginator
+ */
+export interface FetchedPage {
+    url: string;
+    headers: Headers;
+    result: ParseResult;
+}
+
+/**
+ * Work out the URL of the next page, or undefined when there is none
+ *
+ * @param pageNumber 1-based index of the page about to be fetched
+ * @param itemsSoFar unique items collected across previous pages
+ */
+export function resolveNextPageUrl(
+    pagination: Pagination,
+    sourceUrl: string,
+    last: FetchedPage,
+    pageNumber: number,
+    itemsSoFar: number
+): string | undefined {
+    switch (pagination.type) {
+        case 'link': {
+            const next = last.result.pagination?.nextUrl ?? parseLinkHeader(last.headers.get('link'), 'next');
+            return next ? resolve(next, last.url) : undefined;
+        }
+        case 'nextUrl': {
+            const next = last.result.pagination?.nextUrl;
+            return next ? resolve(next, last.url) : undefined;
+        }
+        case 'cursor': {
+            const cursor = last.result.pagination?.nextCursor;
+            return cursor ? withParam(sourceUrl, pagination.cursorParam, cursor) : undefined;
+        }
+        case 'page':
+            if (last.result.items.length === 0) return undefined;
+            return withParam(sourceUrl, pagination.param, String(pagination.start + pageNumber - 1));
+        case 'offset':
+            if (last.result.items.length === 0) return undefined;
+            return withParam(sourceUrl, pagination.param, String(itemsSoFar));
+    }
+}
+
+/**
+ * Extract a URL for the given rel from an HTTP Link header
+ */
+export function parseLinkHeader(header: string | null, rel: string): string | undefined {
+    if (!header) return undefined;
+
+    for (const part of header.split(/,(?=\s*<)/)) {
+        const match = part.match(/<([^>]+)>(.*)/);
+        if (!match) continue;
+        const rels = match[2].match(/rel\s*=\s*"?([^";]+)"?/i)?.[1].toLowerCase().split(/\s+/) ?? [];
+        if (rels.includes(rel)) return match[1];
+    }
+    return undefined;
+}
+
+function resolve(url: string, base: string): string | undefined {
+    try {
+        return new URL(url, base).href;
+    } catch {
+        return undefined;
+    }
+}
+
+function withParam(url: string, name: string, value: string): string {
+    const target = new URL(url);
+    target.searchParams.set(name, value);
+    return target.href;
+}
@@ -0,0 +1,72 @@
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { AdapterRegistration, ContentAdapter } from './types.js';
+
+/**
+ * What a custom adapter module may export, as `default` or as `adapter`:
+ * - an adapter instance
+ * - an adapter class with a no-argument constructor
+ * - an adapter together with its registration options
+ */
+export type AdapterModuleExport =
+    | ContentAdapter
+    | (new () => ContentAdapter)
+    | ({ adapter: ContentAdapter } & AdapterRegistration);
+
+/**
+ * A custom adapter loaded from a module, ready to register
+ */
+export interface LoadedAdapter {
+    adapter: ContentAdapter;
+    registration: AdapterRegistration;
+}
+
+/** Specifiers that carry a URL scheme (data:, http:, file:, node: ...) */
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Import a custom adapter module
+ *
+ * Only file paths are accepted: paths starting with "." are resolved
+ * against baseDir, absolute paths are used as is. URLs (including data:
+ * and file:) and bare package names are rejected, since whatever is
+ * imported runs inside the server.
+ */
+export async function loadAdapterModule(specifier: string, baseDir: string = process.cwd()): Promise<LoadedAdapter> {
+    const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+    if (!isPath) {
+        const kind = URL_SCHEME.test(specifier) ? 'URL' : 'package name';
+        throw new Error(`Adapter module "${specifier}" is a ${kind}; only relative or absolute file paths are allowed`);
+    }
+
+    const mod = await import(pathToFileURL(resolve(baseDir, specifier)).href) as Record<string, unknown>;
+    const exported = (mod.default ?? mod.adapter) as AdapterModuleExport | undefined;
+    if (!exported) {
+        throw new Error(`Adapter module "${specifier}" has no default or "adapter" export`);
+    }
+
+    if (typeof exported === 'function') {
+        return { adapter: assertAdapter(new exported(), specifier), registration: {} };
+    }
+    if ('adapter' in exported) {
+        const { adapter, ...registration } = exported;
+        return { adapter: assertAdapter(adapter, specifier), registration };
+    }
+    return { adapter: assertAdapter(exported, specifier), registration: {} };
+}
+
+/**
+ * Check the ContentAdapter shape at runtime, since modules are untyped
+ */
+function assertAdapter(candidate: unknown, specifier: string): ContentAdapter {
+    const adapter = candidate as Partial<ContentAdapter> | null;
+    if (
+        !adapter ||
+        !Array.isArray(adapter.supportedTypes) ||
+        typeof adapter.canParse !== 'function' ||
+        typeof adapter.parse !== 'function'
+    ) {
+        throw new Error(`Adapter module "${specifier}" does not export a valid ContentAdapter`);
+    }
+    return adapter as ContentAdapter;
+}
@@ -0,0 +1,76 @@
+import { SourceConfig } from '../../config/schema.js';
+
+/**
+ * Default headers sent with every source request
+ */
+export const DEFAULT_REQUEST_HEADERS: Record<string, string> = {
+    'Accept': 'application/rss+xml, application/atom+xml, application/json, text/html, */*',
+    'User-Agent': 'OmniWire-MCP/1.0 (News Aggregator)',
+};
+
+/**
+ * Resolved request target for a source
+ */
+export interface SourceRequest {
+    url: string;
+    headers: Record<string, string>;
+}
+
+/**
+ * Build the URL and headers for a source request
+ *
+ * Applies custom headers and authentication on top of the defaults.
+ * Secrets are read from the environment here so they never live in config.
+ */
+export function buildSourceRequest(source: SourceConfig): SourceRequest {
+    const headers: Record<string, string> = { ...DEFAULT_REQUEST_HEADERS };
+    const url = new URL(source.url);
+
+    for (const [name, value] of Object.entries(source.headers ?? {})) {
+        headers[name] = interpolateEnv(value, source.id);
+    }
+
+    const auth = source.auth;
+    if (auth) {
+        switch (auth.type) {
+            case 'bearer':
+                headers['Authorization'] = `Bearer ${readEnv(auth.tokenEnv, source.id)}`;
+                break;
+            case 'basic': {
+                const password = readEnv(auth.passwordEnv, source.id);
+                const encoded = Buffer.from(`${auth.username}:${password}`).toString('base64');
+                headers['Authorization'] = `Basic ${encoded}`;
+                break;
+            }
+            case 'apiKey': {
+                const key = readEnv(auth.keyEnv, source.id);
+                if (auth.in === 'query') {
+                    url.searchParams.set(auth.name, key);
+                } else {
+                    headers[auth.name] = key;
+                }
+                break;
+            }
+        }
+    }
+
+    return { url: url.href, headers };
+}
+
+/**
+ * Read a required environment variable
+ */
+function readEnv(name: string, sourceId: string): string {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+        throw new Error(`Environment variable ${name} required by source ${sourceId} is not set`);
+    }
+    return value;
+}
+
+/**
+ * Replace ${VAR} references in a header value
+ */
+function interpolateEnv(value: string, sourceId: string): string {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => readEnv(name, sourceId));
+}
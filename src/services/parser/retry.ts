@@ -0,0 +1,103 @@
+import { RetryPolicy, RetryPolicySchema } from '../../config/schema.js';
+
+/**
+ * Default retry policy when none is configured
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = RetryPolicySchema.parse({});
+
+/**
+ * Error raised by a single fetch attempt, classified for retry decisions
+ */
+export class FetchError extends Error {
+    /** Attempts made before this error was given up on */
+    public attempts?: number;
+
+    constructor(
+        message: string,
+        public readonly kind: 'http' | 'timeout' | 'network' | 'other',
+        public readonly status?: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'FetchError';
+    }
+
+    /**
+     * Wrap an unknown error thrown by fetch() or body reading
+     */
+    public static from(error: unknown): FetchError {
+        if (error instanceof FetchError) return error;
+        if (error instanceof Error) {
+            if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+                return new FetchError('Request timed out', 'timeout');
+            }
+            // undici reports connection failures as TypeError('fetch failed')
+            if (error instanceof TypeError) {
+                const cause = (error as { cause?: { message?: string } }).cause?.message;
+                return new FetchError(cause ? `${error.message}: ${cause}` : error.message, 'network');
+            }
+            return new FetchError(error.message, 'other');
+        }
+        return new FetchError('Unknown error', 'other');
+    }
+}
+
+/**
+ * Merge a source's partial override over the global policy
+ */
+export function resolveRetryPolicy(
+    base: RetryPolicy | undefined,
+    override: Partial<RetryPolicy> | undefined
+): RetryPolicy {
+    return { ...(base ?? DEFAULT_RETRY_POLICY), ...override };
+}
+
+/**
+ * Decide whether an attempt's error is worth retrying
+ */
+export function isRetryable(error: FetchError, policy: RetryPolicy): boolean {
+    switch (error.kind) {
+        case 'http':
+            return error.status !== undefined && policy.retryOnStatus.includes(error.status);
+        case 'timeout':
+            return policy.retryOnTimeout;
+        case 'network':
+            return policy.retryOnNetworkError;
+        case 'other':
+            return false;
+    }
+}
+
+/**
+ * Exponential backoff with jitter for the given retry number (1-based)
+ */
+export function computeBackoff(retry: number, policy: RetryPolicy): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+    return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) to milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header.trim());
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Promise-based sleep
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
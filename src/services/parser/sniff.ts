@@ -0,0 +1,106 @@
+/**
+ * Structural probes shared by the adapters' detect() methods
+ *
+ * Probes look at the first few kilobytes only, so they stay cheap on
+ * large documents.
+ */
+
+/** How much of the document the markup probes look at */
+const SNIFF_LENGTH = 4096;
+
+/**
+ * Root element of an XML/HTML document
+ */
+export interface RootElement {
+    /** Element name as written, including any prefix (e.g. "rdf:RDF") */
+    name: string;
+    /** Local name, lowercased (e.g. "rdf") */
+    localName: string;
+    /** The full opening tag, for namespace checks */
+    tag: string;
+}
+
+/**
+ * Find the root element, skipping the BOM, XML declaration, processing
+ * instructions, comments and DOCTYPE
+ */
+export function findRootElement(content: string): RootElement | null {
+    let head = content.slice(0, SNIFF_LENGTH).replace(/^\uFEFF/, '');
+
+    for (;;) {
+        head = head.trimStart();
+        if (head.startsWith('<?')) {
+            const end = head.indexOf('?>');
+            if (end === -1) return null;
+            head = head.slice(end + 2);
+        } else if (head.startsWith('<!--')) {
+            const end = head.indexOf('-->');
+            if (end === -1) return null;
+            head = head.slice(end + 3);
+        } else if (/^<!doctype/i.test(head)) {
+            const end = head.indexOf('>');
+            if (end === -1) return null;
+            head = head.slice(end + 1);
+        } else {
+            break;
+        }
+    }
+
+    const match = head.match(/^<([A-Za-z_][\w.-]*(?::[\w.-]+)?)(?:\s[^>]*)?\/?>/);
+    if (!match) return null;
+
+    const name = match[1];
+    const localName = name.includes(':') ? name.split(':')[1] : name;
+    return { name, localName: localName.toLowerCase(), tag: match[0] };
+}
+
+/**
+ * DOCTYPE declared near the start of the document, lowercased
+ */
+export function findDoctype(content: string): string | null {
+    return content.slice(0, SNIFF_LENGTH).match(/<!doctype\s+([^>\s]+)/i)?.[1].toLowerCase() ?? null;
+}
+
+/**
+ * Parse a body as JSON, or undefined when it is not JSON
+ */
+export function parseJSONBody(content: string): unknown {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Message of a JSON error body ({"error": ...}, {"errors": [...]},
+ * {"status": "error", "message": ...}), or undefined for anything else
+ */
+export function jsonErrorMessage(value: unknown): string | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    const obj = value as Record<string, unknown>;
+
+    const describe = (entry: unknown): string | undefined => {
+        if (typeof entry === 'string') return entry;
+        if (entry && typeof entry === 'object') {
+            const nested = entry as Record<string, unknown>;
+            const text = nested.message ?? nested.detail ?? nested.title ?? nested.code;
+            return text !== undefined ? String(text) : undefined;
+        }
+        return undefined;
+    };
+
+    if (obj.error !== undefined && obj.error !== null && obj.error !== false) {
+        return describe(obj.error) ?? describe(obj) ?? 'Unknown error';
+    }
+    if (Array.isArray(obj.errors) && obj.errors.length > 0) {
+        return describe(obj.errors[0]) ?? 'Unknown error';
+    }
+    const status = typeof obj.status === 'string' ? obj.status.toLowerCase() : undefined;
+    if ((status === 'error' || status === 'fail' || obj.success === false || obj.ok === false) && obj.message) {
+        return String(obj.message);
+    }
+    return undefined;
+}
@@ -1,24 +1,71 @@
 import { z } from 'zod';
+import { RetryPolicy } from '../../config/schema.js';
+
+/**
+ * Media kinds an enclosure can carry
+ */
+export const MediaTypeSchema = z.enum(['audio', 'video', 'image', 'document', 'other']);
+
+export type MediaType = z.infer<typeof MediaTypeSchema>;
+
+/**
+ * Attached media file (podcast episode, video, image, ...)
+ */
+export const MediaEnclosureSchema = z.object({
+    /** File URL */
+    url: z.string(),
+    /** MIME type (e.g. audio/mpeg) */
+    mimeType: z.string().optional(),
+    /** Media kind, from the MIME type or media:content medium */
+    medium: MediaTypeSchema,
+    /** Size in bytes */
+    length: z.number().optional(),
+    /** Playback duration in seconds */
+    duration: z.number().optional(),
+    title: z.string().optional(),
+    /** Preview image URL */
+    thumbnailUrl: z.string().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+});
+
+export type MediaEnclosure = z.infer<typeof MediaEnclosureSchema>;
+
+/**
+ * Forms in which item description/content can be returned
+ */
+export const ContentFormatSchema = z.enum(['html', 'text', 'markdown']);
+
+export type ContentFormat = z.infer<typeof ContentFormatSchema>;
+
+const RenderedContentSchema = z.object({
+    description: z.string().optional(),
+    content: z.string().optional(),
+});
 
 /**
  * Standardized news item format
  * All parsers convert their source format to this structure
  */
 export const NewsItemSchema = z.object({
-    /** Unique identifier (derived from URL or content hash) */
+    /** Stable identifier (hash of source and GUID or canonical URL, see ids.ts) */
     id: z.string(),
+    /** Native identifier from the document (RSS guid, Atom id, JSON id) */
+    guid: z.string().optional(),
     /** Article title */
     title: z.string(),
     /** Article URL */
     link: z.string().url(),
-    /** Short description or excerpt */
+    /** Short description or excerpt (sanitized HTML) */
     description: z.string().optional(),
-    /** Full content (if available) */
+    /** Full content, if available (sanitized HTML) */
     content: z.string().optional(),
     /** Author name */
     author: z.string().optional(),
     /** Publication date */
     publishedAt: z.date().optional(),
+    /** True when publishedAt was inferred (relative expression, missing year) */
+    dateInferred: z.boolean().optional(),
     /** Categories/tags */
     categories: z.array(z.string()).default([]),
     /** Source identifier */
@@ -27,6 +74,13 @@ export const NewsItemSchema = z.object({
     sourceName: z.string(),
     /** Thumbnail/image URL */
     imageUrl: z.string().url().optional(),
+    /** Attached media (RSS enclosures, Media RSS, Atom rel="enclosure", JSON Feed attachments) */
+    enclosures: z.array(MediaEnclosureSchema).optional(),
+    /** Plain-text and Markdown renderings of description and content */
+    rendered: z.object({
+        text: RenderedContentSchema,
+        markdown: RenderedContentSchema,
+    }).optional(),
     /** Additional metadata */
     metadata: z.record(z.unknown()).optional(),
 });
@@ -40,36 +94,183 @@ export enum ContentType {
     RSS = 'rss',
     ATOM = 'atom',
     JSON = 'json',
+    JSON_FEED = 'jsonfeed',
     HTML = 'html',
+    SITEMAP = 'sitemap',
     UNKNOWN = 'unknown',
 }
 
+/**
+ * Something a parse skipped or could not make sense of
+ *
+ * - item-skipped: one entry was dropped (index is its position in the document)
+ * - document: applies to the document as a whole (selector matched nothing, no items, ...)
+ */
+export interface ParseWarning {
+    kind: 'item-skipped' | 'document';
+    message: string;
+    /** Zero-based position of the skipped entry */
+    index?: number;
+}
+
+/**
+ * Category of a failed parse, when it is more specific than a plain error
+ *
+ * - parse-limit: the document broke an XML parse limit (size, depth,
+ *   element count, entities or timeout) and was refused
+ * - robots: the content would be scraped as HTML but robots.txt disallows it
+ */
+export type ParseErrorKind = 'parse-limit' | 'robots';
+
+/**
+ * Outcome of content sniffing
+ */
+export interface Detection {
+    /** Winning content type */
+    type: ContentType | string;
+    /** How sure the winning adapter was, 0-1 (1 for an explicit source type) */
+    confidence: number;
+}
+
 /**
  * Parser result
  */
 export interface ParseResult {
     success: boolean;
     items: NewsItem[];
-    contentType: ContentType;
+    /** Built-in content type, or a custom adapter's type name */
+    contentType: ContentType | string;
+    /** Detected type and confidence; set by UniversalParser */
+    detection?: Detection;
+    /** Adapter that produced the result; set by UniversalParser */
+    adapter?: string;
+    /** Skipped entries and document-level problems */
+    warnings?: ParseWarning[];
     error?: string;
+    /** Category of the error, when it is not an ordinary parse failure */
+    errorKind?: ParseErrorKind;
+    /** Pointers to the next page, when the document exposes them */
+    pagination?: {
+        nextUrl?: string;
+        nextCursor?: string;
+    };
+    /** Child sitemap URLs listed by a sitemap index, newest first */
+    sitemaps?: string[];
     metadata?: {
         title?: string;
         description?: string;
         link?: string;
         lastBuildDate?: Date;
+        feedUrl?: string;
+        icon?: string;
+        favicon?: string;
+        language?: string;
+        authors?: Array<{ name?: string; url?: string; avatar?: string }>;
     };
 }
 
+/**
+ * robots.txt check for a URL (RobotsService.acquire fits)
+ */
+export type RobotsCheck = (url: string) => Promise<{ allowed: boolean; reason?: string }>;
+
+/**
+ * Context of a document being parsed
+ */
+export interface ParseContext {
+    /** URL the content was fetched from, after redirects */
+    documentUrl?: string;
+    /** Run once the content is known to be scraped as HTML, before parsing it */
+    robots?: RobotsCheck;
+}
+
+/**
+ * Options for fetching a source
+ */
+export interface FetchOptions {
+    /** Response size cap in bytes (source.maxResponseBytes takes precedence) */
+    maxResponseBytes?: number;
+    /** Global retry policy (source.retry is merged over it) */
+    retry?: RetryPolicy;
+    /** Extra request headers for this call only */
+    headers?: Record<string, string>;
+    /** IDs of items already stored, used to stop pagination early */
+    knownItemIds?: Set<string>;
+    /**
+     * robots.txt gate for pages scraped as HTML, waiting out Crawl-delay
+     * (RobotsService.acquire). Runs before each page is fetched when the
+     * page is expected to be HTML (html sources, or sources whose last
+     * fetch was HTML), otherwise before a page detected as HTML is parsed.
+     */
+    robots?: RobotsCheck;
+}
+
+/**
+ * Raw, decoded response returned by fetchDocument
+ */
+export interface FetchedDocument {
+    /** Final URL after redirects */
+    url: string;
+    status: number;
+    headers: Headers;
+    contentType?: string;
+    /** Body decoded to text (empty on 304) */
+    content: string;
+    notModified: boolean;
+    attempts: number;
+    responseTimeMs: number;
+}
+
+/**
+ * Final outcome of fetchAndParse, after any retries
+ */
+export interface FetchOutcome {
+    result: ParseResult;
+    /** Total time including retries and backoff */
+    responseTimeMs: number;
+    /** True when the server answered 304 and cached items were reused */
+    notModified?: boolean;
+    /** Number of HTTP attempts made */
+    attempts?: number;
+    /** Number of pages fetched */
+    pages?: number;
+}
+
+/**
+ * HTTP validators and last good result kept per source for conditional GET
+ */
+export interface CachedResponse {
+    /** URL the validators belong to */
+    url: string;
+    /** ETag response header */
+    etag?: string;
+    /** Last-Modified response header */
+    lastModified?: string;
+    /** Result parsed from the last full response */
+    result: ParseResult;
+}
+
 /**
  * Adapter interface - all format adapters must implement this
  */
 export interface ContentAdapter {
-    /** Content types this adapter handles */
-    readonly supportedTypes: ContentType[];
+    /** Name shown in diagnostics (defaults to the class name) */
+    readonly name?: string;
+
+    /** Content types this adapter handles (custom adapters use their own type names) */
+    readonly supportedTypes: ReadonlyArray<ContentType | string>;
 
     /** Check if this adapter can parse the content */
     canParse(content: string, contentType?: string): boolean;
 
+    /**
+     * Confidence (0-1) that the content is in this adapter's format, from
+     * structural probes. Adapters handling several types may return the
+     * specific type too. Adapters without detect() score a flat
+     * FALLBACK_CONFIDENCE when canParse() accepts the content.
+     */
+    detect?(content: string, contentType?: string): number | Detection;
+
     /** Parse content to NewsItems */
     parse(
         content: string,
@@ -78,3 +279,13 @@ export interface ContentAdapter {
         options?: Record<string, unknown>
     ): Promise<ParseResult>;
 }
+
+/**
+ * Options for registering an adapter with UniversalParser
+ */
+export interface AdapterRegistration {
+    /** Higher priority adapters are consulted first (built-in adapters use 0, custom ones default to 10) */
+    priority?: number;
+    /** Minimum detect() score for the adapter to claim auto-detected content (0-1, default 0.5) */
+    minConfidence?: number;
+}
@@ -0,0 +1,33 @@
+import { NewsItem, ParseWarning } from './types.js';
+
+/**
+ * Map raw entries to NewsItems, recording why any were dropped
+ *
+ * @param label entry kind used in messages (e.g. "RSS item")
+ * @param emptyReason why an entry the mapper returned null for was dropped
+ */
+export function collectItems<T>(
+    entries: T[],
+    map: (entry: T) => NewsItem | null,
+    label: string,
+    emptyReason: string
+): { items: NewsItem[]; warnings: ParseWarning[] } {
+    const items: NewsItem[] = [];
+    const warnings: ParseWarning[] = [];
+
+    entries.forEach((entry, index) => {
+        try {
+            const item = map(entry);
+            if (item) {
+                items.push(item);
+            } else {
+                warnings.push({ kind: 'item-skipped', index, message: `${label} ${index + 1} skipped: ${emptyReason}` });
+            }
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            warnings.push({ kind: 'item-skipped', index, message: `${label} ${index + 1} is malformed: ${reason}` });
+        }
+    });
+
+    return { items, warnings };
+}
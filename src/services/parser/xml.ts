@@ -0,0 +1,305 @@
+import { createRequire } from 'node:module';
+import { Worker } from 'node:worker_threads';
+import { X2jOptions, XMLParser } from 'fast-xml-parser';
+import { XmlLimits, XmlLimitsSchema } from '../../config/schema.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('SafeXmlParser');
+
+/** Which XML limit a document broke */
+export type XmlLimitName = 'size' | 'depth' | 'elements' | 'entities' | 'timeout';
+
+/**
+ * Error raised when a document breaks an XML parse limit
+ */
+export class XmlLimitError extends Error {
+    constructor(
+        message: string,
+        public readonly limit: XmlLimitName
+    ) {
+        super(message);
+        this.name = 'XmlLimitError';
+    }
+}
+
+/** <!ENTITY name "value">, <!ENTITY % name ...>, <!ENTITY name SYSTEM "..."> */
+const ENTITY_DECLARATION = /<!ENTITY\s+(%\s*)?([^\s"'>]+)\s*(?:(SYSTEM|PUBLIC)\b|(["'])([\s\S]*?)\4)?/g;
+
+/**
+ * Check a document against the limits before handing it to the parser
+ *
+ * A single linear scan over the markup: counts elements and nesting
+ * depth, and inspects DOCTYPE entity declarations. External and parameter
+ * entities are refused outright; internal ones may not push the expanded
+ * document past maxBytes.
+ *
+ * @throws XmlLimitError on the first limit broken
+ */
+export function checkXmlLimits(content: string, limits: XmlLimits): void {
+    const size = Buffer.byteLength(content, 'utf8');
+    if (size > limits.maxBytes) {
+        throw new XmlLimitError(`Document is ${size} bytes, limit is ${limits.maxBytes}`, 'size');
+    }
+
+    let depth = 0;
+    let elements = 0;
+    let i = content.indexOf('<');
+
+    while (i !== -1) {
+        let end: number;
+        if (content.startsWith('<!--', i)) {
+            end = closeOf(content, i, '-->');
+        } else if (content.startsWith('<![CDATA[', i)) {
+            end = closeOf(content, i, ']]>');
+        } else if (content.startsWith('<?', i)) {
+            end = closeOf(content, i, '?>');
+        } else if (content.startsWith('<!', i)) {
+            end = tagEnd(content, i, true);
+            if (/^<!doctype/i.test(content.slice(i, i + 9))) {
+                checkEntities(content, content.slice(i, end), size, limits);
+            }
+        } else {
+            end = tagEnd(content, i, false);
+            if (end === -1) break;
+            if (content[i + 1] === '/') {
+                depth = Math.max(0, depth - 1);
+            } else {
+                elements++;
+                if (elements > limits.maxElements) {
+                    throw new XmlLimitError(`Document has more than ${limits.maxElements} elements`, 'elements');
+                }
+                if (content[end - 1] !== '/') {
+                    depth++;
+                    if (depth > limits.maxDepth) {
+                        throw new XmlLimitError(`Elements are nested deeper than ${limits.maxDepth} levels`, 'depth');
+                    }
+                }
+            }
+        }
+        if (end === -1) break;
+        i = content.indexOf('<', end + 1);
+    }
+}
+
+/**
+ * Index of the last character of a construct closed by a fixed marker
+ */
+function closeOf(content: string, start: number, marker: string): number {
+    const end = content.indexOf(marker, start + 2);
+    return end === -1 ? -1 : end + marker.length - 1;
+}
+
+/**
+ * Index of the ">" closing a tag, skipping quoted attribute values
+ * (and, for declarations, a bracketed internal subset)
+ */
+function tagEnd(content: string, start: number, declaration: boolean): number {
+    let quote: string | null = null;
+    let brackets = 0;
+    for (let i = start + 1; i < content.length; i++) {
+        const char = content[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (declaration && char === '[') {
+            brackets++;
+        } else if (declaration && char === ']') {
+            brackets--;
+        } else if (char === '>' && brackets <= 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Refuse DOCTYPEs declaring too many, external or parameter entities, or
+ * entities whose expansion would exceed maxBytes
+ *
+ * Entities may reference each other ("billion laughs"), so each one's
+ * size is computed with its references fully expanded.
+ */
+function checkEntities(content: string, doctype: string, size: number, limits: XmlLimits): void {
+    const values = new Map<string, string>();
+    for (const match of doctype.matchAll(ENTITY_DECLARATION)) {
+        const [, parameter, name, external, , value] = match;
+        if (parameter || external) {
+            throw new XmlLimitError(`External and parameter entities are not allowed (${name})`, 'entities');
+        }
+        values.set(name, value ?? '');
+        if (values.size > limits.maxEntities) {
+            throw new XmlLimitError(`DOCTYPE declares more than ${limits.maxEntities} entities`, 'entities');
+        }
+    }
+
+    const tooLarge = () => new XmlLimitError(`Entity expansion would exceed ${limits.maxBytes} bytes`, 'entities');
+    const expandedLengths = new Map<string, number>();
+    const expanding = new Set<string>();
+    const expandedLength = (name: string): number => {
+        const known = expandedLengths.get(name);
+        if (known !== undefined) return known;
+        if (expanding.has(name)) {
+            throw new XmlLimitError(`Entity ${name} references itself`, 'entities');
+        }
+        expanding.add(name);
+
+        const value = values.get(name)!;
+        let length = Buffer.byteLength(value, 'utf8');
+        for (const [other] of values) {
+            const references = countOccurrences(value, `&${other};`);
+            if (references === 0) continue;
+            length += references * (expandedLength(other) - other.length - 2);
+            if (length > limits.maxBytes) throw tooLarge();
+        }
+
+        expanding.delete(name);
+        expandedLengths.set(name, length);
+        return length;
+    };
+
+    let expanded = size;
+    for (const [name] of values) {
+        // References outside the DOCTYPE; those inside are counted by expandedLength
+        const references = countOccurrences(content, `&${name};`) - countOccurrences(doctype, `&${name};`);
+        if (references === 0) continue;
+        expanded += references * expandedLength(name);
+        if (expanded > limits.maxBytes) throw tooLarge();
+    }
+}
+
+function countOccurrences(text: string, needle: string): number {
+    return text.split(needle).length - 1;
+}
+
+/**
+ * Worker body; loads fast-xml-parser by resolved path so it runs the same
+ * from sources and from the build
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const { XMLParser } = require(workerData.parserPath);
+parentPort.on('message', ({ content, options }) => {
+    try {
+        parentPort.postMessage({ value: new XMLParser(options).parse(content) });
+    } catch (error) {
+        parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) });
+    }
+});
+`;
+
+interface WorkerReply {
+    value?: unknown;
+    error?: string;
+}
+
+/**
+ * Safe XML Parser: fast-xml-parser behind limits for untrusted feeds
+ *
+ * Features:
+ * - Size, nesting depth, element count and entity checks before parsing
+ * - Per-parse timeout
+ * - Optional worker thread, terminated and replaced when a parse times out
+ * - Limits can be swapped at runtime on config change
+ *
+ * Without a worker (the default) no timeout is enforced during a parse:
+ * synchronous parsing cannot be interrupted, so a slow parse runs to the
+ * end and is only then rejected. The pre-parse checks keep that work
+ * bounded; set useWorker to cut parses off at timeoutMs.
+ */
+export class SafeXmlParser {
+    private limits: XmlLimits;
+    private worker: Worker | null = null;
+    /** Worker jobs run one at a time, so a timeout only ever hits its own job */
+    private workerQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(limits: XmlLimits = XmlLimitsSchema.parse({})) {
+        this.limits = limits;
+    }
+
+    /**
+     * Replace the active limits
+     */
+    public configure(limits: XmlLimits): void {
+        this.limits = limits;
+        if (!limits.useWorker) this.close();
+    }
+
+    /**
+     * Check a document against the limits, then parse it
+     *
+     * @throws XmlLimitError when a limit is broken; parser errors as Error
+     */
+    public async parse<T = Record<string, unknown>>(content: string, options: X2jOptions): Promise<T> {
+        const limits = this.limits;
+        const startTime = Date.now();
+        checkXmlLimits(content, limits);
+
+        if (limits.useWorker) {
+            const job = this.workerQueue.then(() => this.parseInWorker(content, options, limits.timeoutMs));
+            this.workerQueue = job.catch(() => undefined);
+            return await job as T;
+        }
+
+        const parsed = new XMLParser(options).parse(content) as T;
+        const elapsedMs = Date.now() - startTime;
+        if (elapsedMs > limits.timeoutMs) {
+            throw new XmlLimitError(`Parse took ${elapsedMs}ms, limit is ${limits.timeoutMs}ms`, 'timeout');
+        }
+        return parsed;
+    }
+
+    /**
+     * Stop the worker thread, if one is running
+     */
+    public close(): void {
+        if (this.worker) {
+            void this.worker.terminate();
+            this.worker = null;
+        }
+    }
+
+    private parseInWorker(content: string, options: X2jOptions, timeoutMs: number): Promise<unknown> {
+        const worker = this.getWorker();
+
+        return new Promise((resolve, reject) => {
+            const fail = (error: Error) => {
+                cleanup();
+                if (this.worker === worker) this.close();
+                reject(error);
+            };
+            const onMessage = (reply: WorkerReply) => {
+                cleanup();
+                if (reply.error !== undefined) reject(new Error(reply.error));
+                else resolve(reply.value);
+            };
+            const onExit = (code: number) => fail(new Error(`XML worker exited with code ${code}`));
+            const timer = setTimeout(() => {
+                logger.warn(`XML parse exceeded ${timeoutMs}ms, restarting worker`);
+                fail(new XmlLimitError(`Parse exceeded ${timeoutMs}ms`, 'timeout'));
+            }, timeoutMs);
+            const cleanup = () => {
+                clearTimeout(timer);
+                worker.off('message', onMessage);
+                worker.off('error', fail);
+                worker.off('exit', onExit);
+            };
+
+            worker.on('message', onMessage);
+            worker.on('error', fail);
+            worker.on('exit', onExit);
+            worker.postMessage({ content, options });
+        });
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            const parserPath = createRequire(import.meta.url).resolve('fast-xml-parser');
+            this.worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { parserPath } });
+            // An idle worker must not keep the process alive
+            this.worker.unref();
+            logger.debug('Started XML parse worker');
+        }
+        return this.worker;
+    }
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContentPoller } from './index.js';
+import { ItemStore } from '../store/index.js';
+import { SentinelService } from '../sentinel/index.js';
+import { UniversalParser, ContentType, NewsItem } from '../parser/index.js';
+import { ConfigLoader } from '../../config/index.js';
+import { AppConfig, SourceConfig } from '../../config/schema.js';
+import { RobotsService } from '../robots/index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+function makeItem(id: string, daysAgo: number): NewsItem {
+    return {
+        id,
+        title: `Item ${id}`,
+        link: `http://example.com/${id}`,
+        publishedAt: new Date(Date.now() - daysAgo * 86400000),
+        categories: [],
+        sourceId: 'test-source',
+        sourceName: 'Test',
+    };
+}
+
+describe('ItemStore', () => {
+    it('should merge polls and cap items per source', () => {
+        const store = new ItemStore(3);
+        store.upsert('a', [makeItem('1', 3), makeItem('2', 2)]);
+        store.upsert('a', [makeItem('3', 1), makeItem('4', 0)]);
+
+        const items = store.getItems('a');
+        expect(items.map(i => i.id)).toEqual(['4', '3', '2']);
+    });
+
+    it('should aggregate across sources newest first', () => {
+        const store = new ItemStore(10);
+        store.upsert('a', [makeItem('old', 5)]);
+        store.upsert('b', [makeItem('new', 0)]);
+
+        expect(store.getAllItems().map(i => i.id)).toEqual(['new', 'old']);
+        expect(store.getAllItems(['a']).map(i => i.id)).toEqual(['old']);
+    });
+});
+
+describe('ContentPoller', () => {
+    const source: SourceConfig = {
+        id: 'test-source',
+        name: 'Test',
+        url: 'http://example.com/rss',
+        type: 'rss',
+        enabled: true,
+        priority: 1,
+    };
+
+    let sentinel: SentinelService;
+    let store: ItemStore;
+    let parser: UniversalParser;
+    let poller: ContentPoller;
+
+    beforeEach(() => {
+        const config = {
+            getConfig: () => ({
+                sources: [source],
+                requestTimeoutMs: 1000,
+                contentPollIntervalMs: 300000,
+                maxItemsPerSource: 50,
+            } as unknown as AppConfig),
+        } as unknown as ConfigLoader;
+
+        sentinel = new SentinelService({ failureThreshold: 3, recoveryTimeoutMs: 1000, successThreshold: 2 });
+        sentinel.registerSource(source);
+        store = new ItemStore(50);
+        parser = new UniversalParser();
+        poller = new ContentPoller(parser, sentinel, store, config);
+    });
+
+    it('should store items and record success', async () => {
+        vi.spyOn(parser, 'fetchAndParse').mockResolvedValue({
+            result: { success: true, items: [makeItem('1', 0)], contentType: ContentType.RSS },
+            responseTimeMs: 12,
+        });
+
+        const summary = await poller.pollAll();
+
+        expect(summary.successful).toBe(1);
+        expect(store.getItems(source.id)).toHaveLength(1);
+        expect(sentinel.getSourceHealth(source.id)?.totalRequests).toBe(1);
+    });
+
+    it('should record failures and keep previous items', async () => {
+        store.upsert(source.id, [makeItem('1', 0)]);
+        vi.spyOn(parser, 'fetchAndParse').mockResolvedValue({
+            result: { success: false, items: [], contentType: ContentType.UNKNOWN, error: 'HTTP 500' },
+            responseTimeMs: 5,
+        });
+
+        const summary = await poller.pollAll();
+
+        expect(summary.failed).toBe(1);
+        expect(store.getItems(source.id)).toHaveLength(1);
+        expect(sentinel.getSourceHealth(source.id)?.lastError).toBe('HTTP 500');
+    });
+
+    it('should only record the detected type of successful fetches', async () => {
+        const fetchSpy = vi.spyOn(parser, 'fetchAndParse').mockResolvedValueOnce({
+            result: {
+                success: true,
+                items: [makeItem('1', 0)],
+                contentType: ContentType.RSS,
+                detection: { type: ContentType.RSS, confidence: 0.95 },
+            },
+            responseTimeMs: 5,
+        });
+        await poller.pollAll();
+
+        fetchSpy.mockResolvedValueOnce({
+            result: {
+                success: false,
+                items: [],
+                contentType: ContentType.HTML,
+                detection: { type: ContentType.HTML, confidence: 0.8 },
+                error: 'No items found',
+            },
+            responseTimeMs: 5,
+        });
+        await poller.pollAll();
+
+        expect(sentinel.getSourceHealth(source.id)).toMatchObject({ detectedType: 'rss', detectionConfidence: 0.95 });
+    });
+
+    it('should skip sources with an open circuit', async () => {
+        for (let i = 0; i < 3; i++) sentinel.recordFailure(source.id, 'down');
+        const fetchSpy = vi.spyOn(parser, 'fetchAndParse');
+
+        const summary = await poller.pollAll();
+
+        expect(summary.skipped).toBe(1);
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should check robots.txt when an auto source turns out to be HTML', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('/robots.txt')
+            ? new Response('User-agent: *\nDisallow: /', { status: 200 })
+            : new Response('<html><body><article><a href="/1">Story</a></article></body></html>', {
+                status: 200,
+                headers: { 'content-type': 'text/html' },
+            })));
+
+        try {
+            const outcome = await poller.pollSource({ ...source, type: 'auto' });
+
+            expect(outcome).toBeNull();
+            expect(store.has(source.id)).toBe(false);
+            expect(sentinel.getSourceHealth(source.id)?.blockedReason).toContain('robots.txt');
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('should check every HTML page against robots.txt before fetching it', async () => {
+        const page = (n: number) => new Response(
+            `<html><body><article><a href="/story-${n}a">A</a></article><article><a href="/story-${n}b">B</a></article></body></html>`,
+            { status: 200, headers: { 'content-type': 'text/html', link: `<https://example.com/news/page/${n + 1}>; rel="next"` } }
+        );
+        const fetched: string[] = [];
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+            fetched.push(url);
+            if (url.endsWith('/robots.txt')) return new Response('User-agent: *\nDisallow: /news/page/', { status: 200 });
+            return page(1);
+        }));
+
+        try {
+            const htmlSource: SourceConfig = {
+                ...source,
+                type: 'html',
+                url: 'https://example.com/news',
+                pagination: { type: 'link', maxPages: 3, stopAtKnown: false },
+            };
+            const outcome = await poller.pollSource(htmlSource);
+
+            expect(outcome).toBe(true);
+            expect(store.getItems(source.id)).toHaveLength(2);
+            expect(fetched).toEqual(['https://example.com/robots.txt', 'https://example.com/news']);
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('should ask robots.txt before fetching a source last seen as HTML', async () => {
+        const robots = new RobotsService();
+        const events: string[] = [];
+        vi.spyOn(robots, 'acquire').mockImplementation(async () => {
+            events.push('robots');
+            return { allowed: true };
+        });
+        vi.stubGlobal('fetch', vi.fn(async () => {
+            events.push('fetch');
+            return new Response(
+                '<html><body><article><a href="/1">One</a></article><article><a href="/2">Two</a></article></body></html>',
+                { status: 200, headers: { 'content-type': 'text/html' } }
+            );
+        }));
+
+        try {
+            const config = { getConfig: () => ({ requestTimeoutMs: 1000 } as unknown as AppConfig) } as unknown as ConfigLoader;
+            const htmlPoller = new ContentPoller(parser, sentinel, store, config, robots);
+            const autoSource: SourceConfig = { ...source, type: 'auto' };
+
+            await htmlPoller.pollSource(autoSource);
+            // First poll: the type is only known after fetching
+            expect(events).toEqual(['fetch', 'robots']);
+
+            events.length = 0;
+            await htmlPoller.pollSource(autoSource);
+            expect(events).toEqual(['robots', 'fetch']);
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+});
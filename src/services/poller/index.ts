@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import { ConfigLoader } from '../../config/index.js';
+import { SourceConfig } from '../../config/schema.js';
+import { UniversalParser } from '../parser/index.js';
+import { SentinelService } from '../sentinel/index.js';
+import { ItemStore } from '../store/index.js';
+import { RobotsService } from '../robots/index.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('ContentPoller');
+
+/**
+ * Outcome of a full polling cycle
+ */
+export interface PollSummary {
+    attempted: number;
+    successful: number;
+    failed: number;
+    skipped: number;
+    startedAt: Date;
+    durationMs: number;
+}
+
+/**
+ * Content Poller: Background scheduler for source fetching
+ *
+ * Features:
+ * - Polls every enabled source on contentPollIntervalMs
+ * - Skips sources whose circuit is open (Sentinel protection)
+ * - Reports every fetch outcome to Sentinel
+ * - Writes parsed items into the ItemStore
+ * - Checks robots.txt (and Crawl-delay) for every page scraped as HTML
+ * - Never runs two fetches for the same source concurrently
+ */
+export class ContentPoller extends EventEmitter {
+    private pollTimer: NodeJS.Timeout | null = null;
+    private intervalMs: number | null = null;
+    private inFlight: Set<string> = new Set();
+    private lastSummary: PollSummary | null = null;
+
+    constructor(
+        private readonly parser: UniversalParser,
+        private readonly sentinel: SentinelService,
+        private readonly store: ItemStore,
+        private readonly config: ConfigLoader,
+        private readonly robots: RobotsService = new RobotsService()
+    ) {
+        super();
+    }
+
+    /**
+     * Start the polling loop and kick off an immediate cycle
+     */
+    public start(): void {
+        this.schedule();
+        void this.pollAll();
+    }
+
+    /**
+     * Stop the polling loop
+     */
+    public stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this.intervalMs = null;
+    }
+
+    /**
+     * Re-read interval settings after a config change
+     */
+    public reschedule(): void {
+        const interval = this.config.getConfig().contentPollIntervalMs;
+        if (this.pollTimer && interval !== this.intervalMs) {
+            this.schedule();
+        }
+    }
+
+    /**
+     * Get the summary of the most recent polling cycle
+     */
+    public getLastSummary(): PollSummary | null {
+        return this.lastSummary;
+    }
+
+    /**
+     * Poll every enabled source once
+     */
+    public async pollAll(): Promise<PollSummary> {
+        const startedAt = new Date();
+        const sources = this.config.getConfig().sources.filter(s => s.enabled);
+
+        const summary: PollSummary = {
+            attempted: 0,
+            successful: 0,
+            failed: 0,
+            skipped: 0,
+            startedAt,
+            durationMs: 0,
+        };
+
+        const results = await Promise.allSettled(
+            sources.map(source => this.pollSource(source))
+        );
+
+        for (const result of results) {
+            if (result.status === 'rejected' || result.value === null) {
+                summary.skipped++;
+            } else {
+                summary.attempted++;
+                if (result.value) {
+                    summary.successful++;
+                } else {
+                    summary.failed++;
+                }
+            }
+        }
+
+        summary.durationMs = Date.now() - startedAt.getTime();
+        this.lastSummary = summary;
+
+        logger.info(
+            `Poll cycle finished: ${summary.successful}/${summary.attempted} succeeded, ` +
+            `${summary.skipped} skipped (${summary.durationMs}ms)`
+        );
+        this.emit('poll:completed', summary);
+
+        return summary;
+    }
+
+    /**
+     * Poll a single source
+     *
+     * @returns true on success, false on failure, null when skipped
+     */
+    public async pollSource(source: SourceConfig): Promise<boolean | null> {
+        if (this.inFlight.has(source.id)) {
+            logger.debug(`Poll already in progress for ${source.id}, skipping`);
+            return null;
+        }
+
+        if (!this.sentinel.canRequest(source.id)) {
+            logger.debug(`Circuit open for ${source.id}, skipping poll`);
+            return null;
+        }
+
+        this.inFlight.add(source.id);
+
+        try {
+            const config = this.config.getConfig();
+            const { result, responseTimeMs } = await this.parser.fetchAndParse(
+                source,
+                config.requestTimeoutMs,
+                {
+                    maxResponseBytes: config.maxResponseBytes,
+                    retry: config.retry,
+                    knownItemIds: new Set(this.store.getItems(source.id).map(item => item.id)),
+                    // Every page scraped as HTML, checked before fetching when possible
+                    robots: url => this.robots.acquire(url),
+                }
+            );
+
+            if (result.errorKind === 'robots') {
+                this.sentinel.setBlocked(source.id, result.error ?? 'Disallowed by robots.txt');
+                return null;
+            }
+            this.sentinel.setBlocked(source.id, null);
+
+            if (result.success) {
+                this.sentinel.recordSuccess(source.id, responseTimeMs);
+                if (result.detection) {
+                    this.sentinel.recordDetection(source.id, result.detection.type, result.detection.confidence);
+                }
+                this.store.upsert(source.id, result.items);
+                this.emit('source:polled', { sourceId: source.id, itemCount: result.items.length });
+                return true;
+            }
+
+            this.sentinel.recordFailure(source.id, result.error || 'Unknown error', result.errorKind);
+            return false;
+        } finally {
+            this.inFlight.delete(source.id);
+        }
+    }
+
+    /**
+     * (Re)create the interval timer from current config
+     */
+    private schedule(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+        }
+
+        const interval = this.config.getConfig().contentPollIntervalMs;
+        this.intervalMs = interval;
+        logger.info(`Starting content polling every ${interval / 1000}s`);
+
+        this.pollTimer = setInterval(() => {
+            void this.pollAll();
+        }, interval);
+    }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RobotsService, isPathAllowed, parseRobots } from './index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+const robotsTxt = `
+# Example
+User-agent: *
+Disallow: /private/
+Crawl-delay: 5
+
+User-agent: OmniWire-MCP
+Disallow: /news/drafts
+Allow: /news/
+Disallow: /*.pdf$
+Crawl-delay: 2
+`;
+
+describe('robots.txt parser', () => {
+    it('should prefer the group naming our user-agent', () => {
+        const rules = parseRobots(robotsTxt, 'OmniWire-MCP');
+        expect(rules.crawlDelaySec).toBe(2);
+        expect(isPathAllowed(rules, '/private/page')).toBe(true);
+        expect(isPathAllowed(rules, '/news/drafts/1')).toBe(false);
+        expect(isPathAllowed(rules, '/news/today')).toBe(true);
+        expect(isPathAllowed(rules, '/files/report.pdf')).toBe(false);
+    });
+
+    it('should match groups by product token, ignoring case and version', () => {
+        const versioned = robotsTxt.replace('User-agent: OmniWire-MCP', 'User-agent: omniwire-mcp/1.0');
+        expect(parseRobots(versioned, 'OmniWire-MCP').crawlDelaySec).toBe(2);
+        expect(parseRobots(robotsTxt, 'OmniWire-MCP/2.1 (News Aggregator)').crawlDelaySec).toBe(2);
+        // Another product that merely contains ours is not us
+        expect(parseRobots(robotsTxt.replace('OmniWire-MCP', 'OmniWire-MCP-Fork'), 'OmniWire-MCP').crawlDelaySec).toBe(5);
+    });
+
+    it('should fall back to the wildcard group', () => {
+        const rules = parseRobots(robotsTxt, 'SomeOtherBot');
+        expect(rules.crawlDelaySec).toBe(5);
+        expect(isPathAllowed(rules, '/private/page')).toBe(false);
+        expect(isPathAllowed(rules, '/news/drafts/1')).toBe(true);
+    });
+});
+
+describe('RobotsService', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should cache robots.txt per origin and report disallowed paths', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response(robotsTxt, { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        const robots = new RobotsService();
+
+        const blocked = await robots.check('https://example.com/news/drafts/1');
+        const allowed = await robots.check('https://example.com/news/today');
+
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.reason).toContain('Disallowed by robots.txt');
+        expect(allowed.allowed).toBe(true);
+        expect(allowed.crawlDelayMs).toBe(2000);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should allow everything when robots.txt is missing', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('not found', { status: 404 })));
+        const robots = new RobotsService();
+
+        expect((await robots.check('https://example.com/anything')).allowed).toBe(true);
+    });
+
+    it('should disallow when robots.txt is unreachable', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('oops', { status: 503 })));
+        const robots = new RobotsService();
+
+        const decision = await robots.check('https://example.com/anything');
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toContain('unavailable');
+    });
+});
@@ -0,0 +1,200 @@
+import { RobotsConfig, RobotsConfigSchema } from '../../config/schema.js';
+import { DEFAULT_REQUEST_HEADERS } from '../parser/request.js';
+import { readBodyWithLimit } from '../parser/decode.js';
+import { RobotsRules, isPathAllowed, parseRobots } from './parser.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('Robots');
+
+/** robots.txt bodies beyond this size are truncated per RFC 9309 */
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+/** Unreachable robots.txt is retried sooner than a successful one */
+const ERROR_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Result of checking a URL against robots.txt
+ */
+export interface RobotsDecision {
+    allowed: boolean;
+    /** Why the URL is blocked (set when allowed is false) */
+    reason?: string;
+    /** Crawl-delay for the host in ms, if any */
+    crawlDelayMs?: number;
+}
+
+interface RobotsEntry {
+    /** null means everything is disallowed (robots.txt unreachable) */
+    rules: RobotsRules | null;
+    expiresAt: number;
+    error?: string;
+}
+
+/**
+ * Robots Service: robots.txt fetching, caching and evaluation
+ *
+ * Features:
+ * - One robots.txt fetch per origin, cached for cacheTtlMs
+ * - RFC 9309 semantics: 4xx = allow all, 5xx/unreachable = disallow all
+ * - Crawl-delay enforcement between requests to the same origin
+ */
+export class RobotsService {
+    private cache: Map<string, RobotsEntry> = new Map();
+    private pending: Map<string, Promise<RobotsEntry>> = new Map();
+    private lastAccess: Map<string, number> = new Map();
+    private accessQueues: Map<string, Promise<void>> = new Map();
+
+    constructor(private config: RobotsConfig = RobotsConfigSchema.parse({})) { }
+
+    /**
+     * Replace the active robots configuration
+     */
+    public configure(config: RobotsConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * Check whether a URL may be fetched
+     */
+    public async check(url: string): Promise<RobotsDecision> {
+        if (!this.config.enabled) {
+            return { allowed: true };
+        }
+
+        const target = new URL(url);
+        const entry = await this.getEntry(target.origin);
+
+        if (!entry.rules) {
+            return {
+                allowed: false,
+                reason: `robots.txt for ${target.host} is unavailable (${entry.error}), treating as disallowed`,
+            };
+        }
+
+        const crawlDelayMs = this.config.respectCrawlDelay && entry.rules.crawlDelaySec !== undefined
+            ? entry.rules.crawlDelaySec * 1000
+            : undefined;
+
+        if (!isPathAllowed(entry.rules, target.pathname + target.search)) {
+            return {
+                allowed: false,
+                reason: `Disallowed by robots.txt for ${this.config.userAgent} at ${target.host}${target.pathname}`,
+                crawlDelayMs,
+            };
+        }
+
+        return { allowed: true, crawlDelayMs };
+    }
+
+    /**
+     * Check a URL and, if allowed, wait out the host's Crawl-delay
+     */
+    public async acquire(url: string): Promise<RobotsDecision> {
+        const decision = await this.check(url);
+        if (!decision.allowed || !decision.crawlDelayMs) {
+            return decision;
+        }
+
+        const origin = new URL(url).origin;
+        const delayMs = decision.crawlDelayMs;
+
+        // Serialize access per origin so delays stack instead of overlapping
+        const previous = this.accessQueues.get(origin) ?? Promise.resolve();
+        const mine = previous.then(async () => {
+            const last = this.lastAccess.get(origin);
+            const waitMs = last === undefined ? 0 : last + delayMs - Date.now();
+            if (waitMs > 0) {
+                logger.debug(`Honoring Crawl-delay for ${origin}: waiting ${waitMs}ms`);
+                await new Promise(resolve => setTimeout(resolve, waitMs));
+            }
+            this.lastAccess.set(origin, Date.now());
+        });
+        this.accessQueues.set(origin, mine);
+        await mine;
+        if (this.accessQueues.get(origin) === mine) this.accessQueues.delete(origin);
+
+        return decision;
+    }
+
+    /**
+     * Drop cached robots.txt entries
+     */
+    public clear(): void {
+        this.cache.clear();
+    }
+
+    /**
+     * Get a cached entry or fetch robots.txt (one request per origin at a time)
+     */
+    private async getEntry(origin: string): Promise<RobotsEntry> {
+        const cached = this.cache.get(origin);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached;
+        }
+
+        let pending = this.pending.get(origin);
+        if (!pending) {
+            pending = this.fetchRobots(origin).finally(() => this.pending.delete(origin));
+            this.pending.set(origin, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Download and parse robots.txt for an origin
+     */
+    private async fetchRobots(origin: string): Promise<RobotsEntry> {
+        const robotsUrl = `${origin}/robots.txt`;
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 10000);
+        let entry: RobotsEntry;
+
+        try {
+            const response = await fetch(robotsUrl, {
+                signal: controller.signal,
+                headers: {
+                    'Accept': 'text/plain, */*',
+                    'User-Agent': DEFAULT_REQUEST_HEADERS['User-Agent'],
+                },
+            });
+
+            if (response.ok) {
+                const body = await readBodyWithLimit(response, MAX_ROBOTS_BYTES).catch(() => new Uint8Array(0));
+                const rules = parseRobots(new TextDecoder().decode(body), this.config.userAgent);
+                entry = { rules, expiresAt: Date.now() + this.config.cacheTtlMs };
+            } else if (response.status >= 400 && response.status < 500) {
+                await response.body?.cancel();
+                // No robots.txt means no restrictions
+                entry = { rules: { allow: [], disallow: [] }, expiresAt: Date.now() + this.config.cacheTtlMs };
+            } else {
+                await response.body?.cancel();
+                entry = {
+                    rules: null,
+                    expiresAt: Date.now() + Math.min(ERROR_TTL_MS, this.config.cacheTtlMs),
+                    error: `HTTP ${response.status}`,
+                };
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            entry = {
+                rules: null,
+                expiresAt: Date.now() + Math.min(ERROR_TTL_MS, this.config.cacheTtlMs),
+                error: message,
+            };
+        } finally {
+            clearTimeout(timeout);
+        }
+
+        if (entry.error) {
+            logger.warn(`Could not fetch ${robotsUrl}: ${entry.error}`);
+        } else {
+            logger.debug(`Loaded ${robotsUrl}`);
+        }
+
+        this.cache.set(origin, entry);
+        return entry;
+    }
+}
+
+export { parseRobots, isPathAllowed } from './parser.js';
+export type { RobotsRules } from './parser.js';
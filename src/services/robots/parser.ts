@@ -0,0 +1,111 @@
+/**
+ * Rules from robots.txt that apply to one user-agent
+ */
+export interface RobotsRules {
+    allow: string[];
+    disallow: string[];
+    /** Crawl-delay in seconds, if specified */
+    crawlDelaySec?: number;
+}
+
+interface RobotsGroup {
+    agents: string[];
+    rules: RobotsRules;
+}
+
+/**
+ * Parse robots.txt and pick the group that applies to our user-agent
+ *
+ * Follows RFC 9309: the group naming our product token wins, otherwise
+ * the `*` group, otherwise everything is allowed. Product tokens compare
+ * case-insensitively and without a version ("OmniWire-MCP/1.0").
+ */
+export function parseRobots(text: string, userAgent: string): RobotsRules {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        if (!line) continue;
+
+        const colon = line.indexOf(':');
+        if (colon === -1) continue;
+
+        const field = line.slice(0, colon).trim().toLowerCase();
+        const value = line.slice(colon + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: { allow: [], disallow: [] } };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (!current) continue;
+
+        if (field === 'allow' && value) {
+            current.rules.allow.push(value);
+        } else if (field === 'disallow' && value) {
+            current.rules.disallow.push(value);
+        } else if (field === 'crawl-delay') {
+            const delay = Number(value);
+            if (Number.isFinite(delay) && delay >= 0) {
+                current.rules.crawlDelaySec = delay;
+            }
+        }
+    }
+
+    const token = productToken(userAgent);
+    const specific = groups.filter(g => g.agents.some(a => a !== '*' && productToken(a) === token));
+    const chosen = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+
+    // Multiple matching groups are merged
+    return chosen.reduce<RobotsRules>((merged, g) => ({
+        allow: [...merged.allow, ...g.rules.allow],
+        disallow: [...merged.disallow, ...g.rules.disallow],
+        crawlDelaySec: g.rules.crawlDelaySec ?? merged.crawlDelaySec,
+    }), { allow: [], disallow: [] });
+}
+
+/**
+ * Product token of a user-agent string: "OmniWire-MCP/1.0 (...)" -> "omniwire-mcp"
+ */
+function productToken(userAgent: string): string {
+    return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Check a URL path against rules (longest match wins, Allow wins ties)
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+    let bestAllow = -1;
+    let bestDisallow = -1;
+
+    for (const pattern of rules.allow) {
+        if (matchesPattern(pattern, path)) bestAllow = Math.max(bestAllow, pattern.length);
+    }
+    for (const pattern of rules.disallow) {
+        if (matchesPattern(pattern, path)) bestDisallow = Math.max(bestDisallow, pattern.length);
+    }
+
+    return bestDisallow === -1 || bestAllow >= bestDisallow;
+}
+
+/**
+ * Match a robots.txt path pattern supporting `*` and a trailing `$`
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
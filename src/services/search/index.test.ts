@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SearchIndex } from './index.js';
+import { stemEnglish, stemTurkish } from './stemmers.js';
+import { ItemStore } from '../store/index.js';
+import { NewsItem } from '../parser/index.js';
+
+vi.mock('../../utils/logger.js', () => ({
+    logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    },
+    createLogger: () => ({
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+    }),
+}));
+
+function item(id: string, sourceId: string, title: string, description: string, extra: Partial<NewsItem> = {}): NewsItem {
+    return {
+        id,
+        title,
+        link: `https://${sourceId}.example/${id}`,
+        description,
+        sourceId,
+        sourceName: sourceId,
+        publishedAt: new Date('2026-03-10T12:00:00Z'),
+        categories: [],
+        ...extra,
+    };
+}
+
+describe('SearchIndex', () => {
+    it('should stem English and Turkish words', () => {
+        expect(['chips', 'running', 'connection', 'relational', 'happiness'].map(stemEnglish))
+            .toEqual(['chip', 'run', 'connect', 'relat', 'happi']);
+        expect(['ekonomisinde', 'ekonomiden', 'seçimlerin'].map(stemTurkish))
+            .toEqual(['ekonom', 'ekonom', 'seçim']);
+    });
+
+    it('should rank items by relevance across fields', () => {
+        const store = new ItemStore(50);
+        store.upsert('tech', [
+            item('1', 'tech', 'Nvidia unveils new AI chips for data centers', 'The chips promise faster training.', { categories: ['AI', 'Hardware'] }),
+            item('2', 'tech', 'Smartphone sales slow down', 'Analysts mention AI features and custom chips only in passing.'),
+            item('3', 'tech', 'Weather update', 'Sunny all week.'),
+        ]);
+        const index = new SearchIndex(store);
+
+        const results = index.search('AI chips');
+        expect(results.map(r => r.item.id)).toEqual(['1', '2']);
+        expect(results[0].score).toBeGreaterThan(results[1].score);
+        expect(results[0].title).toBe('Nvidia unveils new **AI** **chips** for data centers');
+        expect(results[0].snippet).toBe('The **chips** promise faster training.');
+
+        // Stemming: "chip" finds "chips"
+        expect(index.search('chip').map(r => r.item.id)).toEqual(['1', '2']);
+        // Phrases must appear as written
+        expect(index.search('"custom chips"').map(r => r.item.id)).toEqual(['2']);
+        expect(index.search('"chips custom"')).toEqual([]);
+        expect(index.search('AI', { sourceIds: ['other'] })).toEqual([]);
+    });
+
+    it('should match inflected Turkish words and follow store updates', () => {
+        const store = new ItemStore(50);
+        store.upsert('haber', [
+            item('tr-1', 'haber', 'Türkiye ekonomisinde büyüme beklentisi', 'Merkez Bankası faiz kararını açıkladı.'),
+        ]);
+        const index = new SearchIndex(store);
+
+        expect(index.search('ekonomi').map(r => r.item.id)).toEqual(['tr-1']);
+        expect(index.search('merkez bankasi faiz')[0].title).toBe('Türkiye ekonomisinde büyüme beklentisi');
+
+        store.upsert('haber', [item('tr-2', 'haber', 'Seçim sonuçları açıklandı', 'Ekonomiden sorumlu bakan konuştu.')]);
+        expect(index.search('ekonomi').map(r => r.item.id).sort()).toEqual(['tr-1', 'tr-2']);
+
+        store.remove('haber');
+        expect(index.search('ekonomi')).toEqual([]);
+    });
+});
@@ -0,0 +1,337 @@
+import { NewsItem, withContentFormat } from '../parser/index.js';
+import { ItemStore, SourceSnapshot } from '../store/index.js';
+import { Language, Token, detectLanguage, normalizeWord, tokenize } from './tokenize.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('SearchIndex');
+
+/** Indexed item fields and their score boosts */
+const FIELD_BOOSTS = {
+    title: 3,
+    categories: 2,
+    author: 1.5,
+    description: 1.2,
+    content: 1,
+} as const;
+
+type Field = keyof typeof FIELD_BOOSTS;
+
+const FIELDS = Object.keys(FIELD_BOOSTS) as Field[];
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 length normalization */
+const B = 0.75;
+
+/** Words shown in a snippet */
+const SNIPPET_WORDS = 30;
+
+interface FieldEntry {
+    /** Non-stopword tokens */
+    length: number;
+    /** Positions of each term */
+    terms: Map<string, number[]>;
+}
+
+interface IndexedItem {
+    item: NewsItem;
+    language: Language;
+    fields: Record<Field, FieldEntry>;
+}
+
+/**
+ * A query word as both languages would index it
+ */
+interface QueryTerm {
+    variants: string[];
+    /** Offset from the start of its phrase, counting stopwords */
+    offset: number;
+}
+
+/**
+ * Search options
+ */
+export interface SearchOptions {
+    /** Only search these sources */
+    sourceIds?: string[];
+    /** Max results (default 10) */
+    limit?: number;
+}
+
+/**
+ * A ranked search hit
+ */
+export interface SearchResult {
+    item: NewsItem;
+    /** BM25 relevance, higher is better */
+    score: number;
+    /** Title with matched words in **bold** */
+    title: string;
+    /** Best-matching passage of the description or content, matches in **bold** */
+    snippet: string;
+}
+
+/**
+ * Search Index: Local full-text search over stored items
+ *
+ * Features:
+ * - Inverted index over title, description, content, categories and author
+ * - BM25 ranking with per-field boosts (title matches weigh most)
+ * - English (Porter) and Turkish (suffix stripping) stemming
+ * - Multi-word queries rank items matching more words higher
+ * - "Quoted phrases" must appear as written
+ * - Highlighted titles and snippets
+ * - Follows the ItemStore lazily: sources are re-indexed when their snapshot changes
+ */
+export class SearchIndex {
+    private items: Map<string, IndexedItem> = new Map();
+    private postings: Map<string, Set<string>> = new Map();
+    private fieldTotals: Record<Field, number> = { title: 0, categories: 0, author: 0, description: 0, content: 0 };
+    private indexedSnapshots: Map<string, { snapshot: SourceSnapshot; ids: string[] }> = new Map();
+
+    constructor(private readonly store: ItemStore) { }
+
+    /**
+     * Rank stored items against a query
+     */
+    public search(query: string, options: SearchOptions = {}): SearchResult[] {
+        this.sync();
+
+        const { terms, phrases } = this.parseQuery(query);
+        if (terms.length === 0) return [];
+
+        const allowed = options.sourceIds ? new Set(options.sourceIds) : null;
+        const candidates = new Set<string>();
+        for (const term of terms) {
+            for (const variant of term.variants) {
+                for (const id of this.postings.get(variant) ?? []) candidates.add(id);
+            }
+        }
+
+        const scored: Array<{ entry: IndexedItem; score: number }> = [];
+        for (const id of candidates) {
+            const entry = this.items.get(id)!;
+            if (allowed && !allowed.has(entry.item.sourceId)) continue;
+            if (!phrases.every(phrase => this.containsPhrase(entry, phrase))) continue;
+            scored.push({ entry, score: terms.reduce((sum, term) => sum + this.scoreTerm(entry, term), 0) });
+        }
+
+        scored.sort((a, b) =>
+            b.score - a.score || this.time(b.entry.item) - this.time(a.entry.item)
+        );
+
+        return scored.slice(0, options.limit ?? 10).map(({ entry, score }) => ({
+            item: entry.item,
+            score: Math.round(score * 1000) / 1000,
+            title: this.highlight(entry.item.title, entry.language, terms),
+            snippet: this.snippet(entry, terms),
+        }));
+    }
+
+    /**
+     * Re-index sources whose store snapshot changed and drop removed ones
+     */
+    private sync(): void {
+        const sourceIds = new Set(this.store.getSourceIds());
+
+        for (const [sourceId, indexed] of this.indexedSnapshots) {
+            if (!sourceIds.has(sourceId) || this.store.getSnapshot(sourceId) !== indexed.snapshot) {
+                indexed.ids.forEach(id => this.remove(id));
+                this.indexedSnapshots.delete(sourceId);
+            }
+        }
+
+        for (const sourceId of sourceIds) {
+            if (this.indexedSnapshots.has(sourceId)) continue;
+            const snapshot = this.store.getSnapshot(sourceId);
+            if (!snapshot) continue;
+            for (const item of snapshot.items) this.add(item);
+            this.indexedSnapshots.set(sourceId, { snapshot, ids: snapshot.items.map(item => item.id) });
+            logger.debug(`Indexed ${snapshot.items.length} items for ${sourceId}`);
+        }
+    }
+
+    private add(item: NewsItem): void {
+        const text = withContentFormat(item, 'text');
+        const language = detectLanguage(`${item.title} ${text.description ?? ''}`, item.metadata?.language);
+        const sources: Record<Field, string> = {
+            title: item.title,
+            categories: item.categories.join(' '),
+            author: item.author ?? '',
+            description: text.description ?? '',
+            content: text.content ?? '',
+        };
+
+        const fields = {} as Record<Field, FieldEntry>;
+        for (const field of FIELDS) {
+            const terms = new Map<string, number[]>();
+            let length = 0;
+            for (const token of tokenize(sources[field], language)) {
+                if (!token.term) continue;
+                length++;
+                const positions = terms.get(token.term);
+                if (positions) positions.push(token.position);
+                else terms.set(token.term, [token.position]);
+            }
+            fields[field] = { length, terms };
+            this.fieldTotals[field] += length;
+
+            for (const term of terms.keys()) {
+                const ids = this.postings.get(term);
+                if (ids) ids.add(item.id);
+                else this.postings.set(term, new Set([item.id]));
+            }
+        }
+
+        this.items.set(item.id, { item, language, fields });
+    }
+
+    private remove(id: string): void {
+        const entry = this.items.get(id);
+        if (!entry) return;
+
+        for (const field of FIELDS) {
+            this.fieldTotals[field] -= entry.fields[field].length;
+            for (const term of entry.fields[field].terms.keys()) {
+                const ids = this.postings.get(term);
+                ids?.delete(id);
+                if (ids?.size === 0) this.postings.delete(term);
+            }
+        }
+        this.items.delete(id);
+    }
+
+    /**
+     * Split a query into scored terms and required "quoted phrases"
+     */
+    private parseQuery(query: string): { terms: QueryTerm[]; phrases: QueryTerm[][] } {
+        const terms: QueryTerm[] = [];
+        const phrases: QueryTerm[][] = [];
+
+        const parts = query.split('"');
+        parts.forEach((part, index) => {
+            // Odd parts sit between quotes
+            const phrase = index % 2 === 1;
+            const words = this.queryTerms(part);
+            terms.push(...words);
+            if (phrase && words.length > 1) phrases.push(words);
+        });
+
+        return { terms, phrases };
+    }
+
+    /**
+     * Query words with their English and Turkish index forms
+     */
+    private queryTerms(text: string): QueryTerm[] {
+        const english = tokenize(text, 'en');
+        const terms: QueryTerm[] = [];
+        for (const token of english) {
+            const word = text.slice(token.start, token.end).split(/['’]/)[0];
+            const variants = [...new Set([token.term, normalizeWord(word, 'tr')])].filter(Boolean);
+            if (variants.length > 0) terms.push({ variants, offset: token.position });
+        }
+        const first = terms[0]?.offset ?? 0;
+        return terms.map(term => ({ ...term, offset: term.offset - first }));
+    }
+
+    /**
+     * BM25 contribution of one query term, best-matching variant
+     */
+    private scoreTerm(entry: IndexedItem, term: QueryTerm): number {
+        const total = this.items.size;
+        let best = 0;
+
+        for (const variant of term.variants) {
+            const df = this.postings.get(variant)?.size ?? 0;
+            if (df === 0) continue;
+            const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+
+            let score = 0;
+            for (const field of FIELDS) {
+                const { length, terms } = entry.fields[field];
+                const tf = terms.get(variant)?.length ?? 0;
+                if (tf === 0) continue;
+                const average = this.fieldTotals[field] / total || 1;
+                score += FIELD_BOOSTS[field] * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / average));
+            }
+            best = Math.max(best, score);
+        }
+        return best;
+    }
+
+    /**
+     * Whether any field has the phrase's words at their relative positions
+     */
+    private containsPhrase(entry: IndexedItem, phrase: QueryTerm[]): boolean {
+        const positionsOf = (field: Field, term: QueryTerm): number[] =>
+            term.variants.flatMap(variant => entry.fields[field].terms.get(variant) ?? []);
+
+        return FIELDS.some(field => {
+            const [first, ...rest] = phrase;
+            return positionsOf(field, first).some(start =>
+                rest.every(term => positionsOf(field, term).includes(start + term.offset))
+            );
+        });
+    }
+
+    /**
+     * Wrap matched words of a text in **bold**
+     */
+    private highlight(text: string, language: Language, terms: QueryTerm[], tokens = tokenize(text, language)): string {
+        const matched = this.matchedTokens(tokens, terms);
+        let result = '';
+        let cursor = 0;
+        for (const token of matched) {
+            result += `${text.slice(cursor, token.start)}**${text.slice(token.start, token.end)}**`;
+            cursor = token.end;
+        }
+        return result + text.slice(cursor);
+    }
+
+    /**
+     * The window of SNIPPET_WORDS words with the most matches, from the
+     * description or the content
+     */
+    private snippet(entry: IndexedItem, terms: QueryTerm[]): string {
+        const text = withContentFormat(entry.item, 'text');
+        let best: { text: string; tokens: Token[]; start: number; hits: number } | null = null;
+
+        for (const body of [text.description, text.content]) {
+            if (!body) continue;
+            const tokens = tokenize(body, entry.language);
+            const hits = tokens.map(token => (this.matchedTokens([token], terms).length > 0 ? 1 : 0));
+            let windowHits = hits.slice(0, SNIPPET_WORDS).reduce<number>((sum, hit) => sum + hit, 0);
+            let bestStart = 0;
+            let bestHits = windowHits;
+            for (let start = 1; start + SNIPPET_WORDS <= tokens.length; start++) {
+                windowHits += hits[start + SNIPPET_WORDS - 1] - hits[start - 1];
+                if (windowHits > bestHits) {
+                    bestHits = windowHits;
+                    bestStart = start;
+                }
+            }
+            if (!best || bestHits > best.hits) best = { text: body, tokens, start: bestStart, hits: bestHits };
+        }
+
+        if (!best || best.tokens.length === 0) return '';
+
+        const window = best.tokens.slice(best.start, best.start + SNIPPET_WORDS);
+        const from = best.start === 0 ? 0 : window[0].start;
+        const last = best.start + SNIPPET_WORDS >= best.tokens.length;
+        const to = last ? best.text.length : window[window.length - 1].end;
+        const shifted = window.map(token => ({ ...token, start: token.start - from, end: token.end - from }));
+
+        const passage = this.highlight(best.text.slice(from, to), entry.language, terms, shifted).trim();
+        return `${from > 0 ? '…' : ''}${passage}${last ? '' : '…'}`;
+    }
+
+    private matchedTokens(tokens: Token[], terms: QueryTerm[]): Token[] {
+        return tokens.filter(token => token.term && terms.some(term => term.variants.includes(token.term)));
+    }
+
+    private time(item: NewsItem): number {
+        return item.publishedAt ? new Date(item.publishedAt).getTime() : 0;
+    }
+}
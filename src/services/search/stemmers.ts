@@ -0,0 +1,143 @@
+/**
+ * Stemmers for the search index
+ *
+ * English follows the Porter (1980) algorithm. Turkish uses a light
+ * suffix stripper: it removes plural, possessive and case endings, which
+ * covers most inflection in news text without a dictionary.
+ */
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+
+/** [C](VC){m}[V] with m > 0 */
+const MEASURE_GT0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+/** m == 1 */
+const MEASURE_EQ1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+/** m > 1 */
+const MEASURE_GT1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+/** Stem contains a vowel */
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+/** Ends consonant-vowel-consonant, last not w, x or y */
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+const STEP2: Record<string, string> = {
+    ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+    entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+    iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+
+const STEP3: Record<string, string> = {
+    icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+
+const STEP2_SUFFIXES = new RegExp(`^(.+?)(${Object.keys(STEP2).join('|')})$`);
+const STEP3_SUFFIXES = new RegExp(`^(.+?)(${Object.keys(STEP3).join('|')})$`);
+const STEP4_SUFFIXES = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+/**
+ * Porter stem of a lowercase English word (words outside a-z are returned as is)
+ */
+export function stemEnglish(word: string): string {
+    if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+    // A leading y is a consonant
+    const leadingY = word[0] === 'y';
+    let w = leadingY ? `Y${word.slice(1)}` : word;
+    let match: RegExpExecArray | null;
+
+    // Step 1a: plurals
+    if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+        w = match[1] + match[2];
+    } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+        w = match[1] + match[2];
+    }
+
+    // Step 1b: -eed, -ed, -ing
+    if ((match = /^(.+?)eed$/.exec(w))) {
+        if (MEASURE_GT0.test(match[1])) w = w.slice(0, -1);
+    } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+        w = match[1];
+        if (/(at|bl|iz)$/.test(w)) {
+            w += 'e';
+        } else if (/([^aeiouylsz])\1$/.test(w)) {
+            w = w.slice(0, -1);
+        } else if (ENDS_CVC.test(w)) {
+            w += 'e';
+        }
+    }
+
+    // Step 1c: y -> i
+    if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+        w = `${match[1]}i`;
+    }
+
+    // Step 2: double suffixes
+    if ((match = STEP2_SUFFIXES.exec(w)) && MEASURE_GT0.test(match[1])) {
+        w = match[1] + STEP2[match[2]];
+    }
+
+    // Step 3: -ic-, -full, -ness
+    if ((match = STEP3_SUFFIXES.exec(w)) && MEASURE_GT0.test(match[1])) {
+        w = match[1] + STEP3[match[2]];
+    }
+
+    // Step 4: remaining suffixes
+    if ((match = STEP4_SUFFIXES.exec(w))) {
+        if (MEASURE_GT1.test(match[1])) w = match[1];
+    } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+        const stem = match[1] + match[2];
+        if (MEASURE_GT1.test(stem)) w = stem;
+    }
+
+    // Step 5: final -e and -ll
+    if ((match = /^(.+?)e$/.exec(w))) {
+        const stem = match[1];
+        if (MEASURE_GT1.test(stem) || (MEASURE_EQ1.test(stem) && !ENDS_CVC.test(stem))) w = stem;
+    }
+    if (/ll$/.test(w) && MEASURE_GT1.test(w)) {
+        w = w.slice(0, -1);
+    }
+
+    return leadingY ? `y${w.slice(1)}` : w;
+}
+
+/** Longest first, so compound endings are removed in one step */
+const byLength = (suffixes: string[]): string[] => suffixes.sort((a, b) => b.length - a.length);
+
+/**
+ * Turkish suffix layers, stripped outermost first: case, possessive, plural
+ * (a word is stem + plural + possessive + case)
+ */
+const TURKISH_LAYERS = [
+    byLength([
+        'ların', 'lerin', 'ndaki', 'ndeki', 'ndan', 'nden', 'daki', 'deki', 'taki', 'teki', 'nda', 'nde',
+        'nın', 'nin', 'nun', 'nün', 'dan', 'den', 'tan', 'ten', 'yla', 'yle', 'yı', 'yi', 'yu', 'yü',
+        'da', 'de', 'ta', 'te', 'la', 'le', 'ya', 'ye', 'na', 'ne', 'nı', 'ni', 'nu', 'nü',
+    ]),
+    byLength([
+        'ları', 'leri', 'mız', 'miz', 'muz', 'müz', 'nız', 'niz', 'nuz', 'nüz', 'sı', 'si', 'su', 'sü',
+    ]),
+    ['lar', 'ler'],
+];
+
+/** Shortest stem the Turkish stripper leaves behind */
+const TURKISH_MIN_STEM = 3;
+
+/**
+ * Light stem of a lowercase Turkish word
+ *
+ * Strips at most one suffix per layer, then a final vowel so that
+ * "ekonomi" and "ekonomisinde" meet at "ekonom". Two-letter suffixes need
+ * a longer remainder, which spares words like "hafta".
+ */
+export function stemTurkish(word: string): string {
+    let w = word;
+    for (const layer of TURKISH_LAYERS) {
+        const suffix = layer.find(s => w.endsWith(s) && w.length - s.length >= Math.max(TURKISH_MIN_STEM, 6 - s.length));
+        if (suffix) w = w.slice(0, -suffix.length);
+    }
+    if (/[aeıioöuü]$/.test(w) && w.length > TURKISH_MIN_STEM) w = w.slice(0, -1);
+    return w;
+}
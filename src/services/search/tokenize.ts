@@ -0,0 +1,84 @@
+import { stemEnglish, stemTurkish } from './stemmers.js';
+
+/** Languages with stemming support */
+export type Language = 'en' | 'tr';
+
+/**
+ * A word in a text, with where it was found
+ */
+export interface Token {
+    /** Normalized, stemmed form ('' for stopwords) */
+    term: string;
+    /** Word index in the text, counting stopwords */
+    position: number;
+    /** Character offsets of the word in the original text */
+    start: number;
+    end: number;
+}
+
+const STOPWORDS: Record<Language, Set<string>> = {
+    en: new Set([
+        'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+        'his', 'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'she', 'that', 'the', 'their',
+        'they', 'this', 'to', 'was', 'we', 'were', 'which', 'will', 'with',
+    ]),
+    tr: new Set([
+        'acaba', 'ama', 'ancak', 'bir', 'biri', 'bu', 'çok', 'da', 'daha', 'de', 'diye', 'en', 'gibi',
+        'hem', 'her', 'için', 'ile', 'ise', 'kadar', 'ki', 'mi', 'mu', 'mı', 'mü', 'ne', 'o', 'olan',
+        'olarak', 'sonra', 'şu', 've', 'veya', 'ya', 'yani',
+    ]),
+};
+
+/** Word, optionally followed by an apostrophe suffix ("Apple's", "Türkiye'nin") */
+const WORD = /([\p{L}\p{N}]+)(?:['’][\p{L}]+)?/gu;
+
+/** Letters only Turkish text uses */
+const TURKISH_LETTERS = /[ğĞşŞıİ]/;
+
+const TURKISH_FOLD: Record<string, string> = { ı: 'i', ğ: 'g', ş: 's', ç: 'c', ö: 'o', ü: 'u' };
+
+/**
+ * Guess the language of an item from its metadata or letters
+ */
+export function detectLanguage(text: string, declared?: unknown): Language {
+    if (typeof declared === 'string') {
+        const code = declared.toLowerCase();
+        if (code.startsWith('tr')) return 'tr';
+        if (code.startsWith('en')) return 'en';
+    }
+    return TURKISH_LETTERS.test(text) ? 'tr' : 'en';
+}
+
+/**
+ * Normalized index term for one word, or '' for a stopword
+ *
+ * Stems are folded to ASCII afterwards, so "guzel" finds "güzel" and
+ * accented English words match their plain spelling.
+ */
+export function normalizeWord(word: string, language: Language): string {
+    if (language === 'tr') {
+        const lower = word.toLocaleLowerCase('tr-TR');
+        if (STOPWORDS.tr.has(lower)) return '';
+        return stemTurkish(lower).replace(/[ığşçöü]/g, char => TURKISH_FOLD[char]);
+    }
+
+    const lower = word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (STOPWORDS.en.has(lower)) return '';
+    return stemEnglish(lower);
+}
+
+/**
+ * Split text into tokens
+ */
+export function tokenize(text: string, language: Language): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(WORD)) {
+        tokens.push({
+            term: normalizeWord(match[1], language),
+            position: tokens.length,
+            start: match.index,
+            end: match.index + match[0].length,
+        });
+    }
+    return tokens;
+}
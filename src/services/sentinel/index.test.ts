@@ -102,4 +102,46 @@ describe('SentinelService', () => {
 
         expect(sentinel.canRequest(sourceId)).toBe(false);
     });
+
+    it('should report content type changes between fetches', () => {
+        const sourceId = 'typed-source';
+        sentinel.registerSource({
+            id: sourceId,
+            name: 'Typed Test',
+            url: 'http://example.com',
+            type: 'auto',
+            enabled: true,
+            priority: 1
+        });
+
+        const changes: unknown[] = [];
+        sentinel.on('source:type-changed', event => changes.push(event));
+
+        sentinel.recordDetection(sourceId, 'rss', 0.95);
+        sentinel.recordDetection(sourceId, 'rss', 0.95);
+        sentinel.recordDetection(sourceId, 'html', 0.95);
+
+        expect(changes).toEqual([{ sourceId, previous: 'rss', current: 'html', confidence: 0.95 }]);
+        expect(sentinel.getSourceHealth(sourceId)).toMatchObject({ detectedType: 'html', detectionConfidence: 0.95 });
+    });
+
+    it('should count failures by kind', () => {
+        const sourceId = 'hostile-source';
+        sentinel.registerSource({
+            id: sourceId,
+            name: 'Hostile Test',
+            url: 'http://example.com',
+            type: 'rss',
+            enabled: true,
+            priority: 1
+        });
+
+        sentinel.recordFailure(sourceId, 'Elements are nested deeper than 100 levels', 'parse-limit');
+        sentinel.recordFailure(sourceId, 'Parse exceeded 5000ms', 'parse-limit');
+        sentinel.recordFailure(sourceId, 'HTTP 500');
+
+        const health = sentinel.getSourceHealth(sourceId);
+        expect(health?.totalFailures).toBe(3);
+        expect(health?.failuresByKind).toEqual({ 'parse-limit': 2 });
+    });
 });
@@ -20,6 +20,9 @@ const logger = createLogger('Sentinel');
  * - Automatic recovery with exponential backoff
  * - Health metrics exposure for AI consumption
  * - Event-driven notifications
+ * - Blocked-source tracking (e.g. robots.txt) with reasons
+ * - Detected content type tracking with change notifications
+ * - Failure counts per category (e.g. parse-limit violations)
  */
 export class SentinelService extends EventEmitter {
     private circuitBreakers: Map<string, CircuitBreaker> = new Map();
@@ -30,8 +33,11 @@ export class SentinelService extends EventEmitter {
         lastFailure: Date | null;
         lastError: string | null;
         responseTimes: number[];
+        failuresByKind: Record<string, number>;
     }> = new Map();
     private sourceConfigs: Map<string, SourceConfig> = new Map();
+    private blockedReasons: Map<string, string> = new Map();
+    private detections: Map<string, { type: string; confidence: number }> = new Map();
     private config: CircuitBreakerConfig;
 
     constructor(config: CircuitBreakerConfig) {
@@ -55,6 +61,7 @@ export class SentinelService extends EventEmitter {
                 lastFailure: null,
                 lastError: null,
                 responseTimes: [],
+                failuresByKind: {},
             });
             this.sourceConfigs.set(source.id, source);
             logger.info(`Registered source for monitoring: ${source.id}`);
@@ -68,6 +75,8 @@ export class SentinelService extends EventEmitter {
         this.circuitBreakers.delete(sourceId);
         this.sourceStats.delete(sourceId);
         this.sourceConfigs.delete(sourceId);
+        this.blockedReasons.delete(sourceId);
+        this.detections.delete(sourceId);
         logger.info(`Unregistered source: ${sourceId}`);
     }
 
@@ -109,8 +118,10 @@ export class SentinelService extends EventEmitter {
 
     /**
      * Record a failed request
+     *
+     * @param kind optional failure category (e.g. "parse-limit"), counted per source
      */
-    public recordFailure(sourceId: string, error: string): void {
+    public recordFailure(sourceId: string, error: string, kind?: string): void {
         const breaker = this.circuitBreakers.get(sourceId);
         const stats = this.sourceStats.get(sourceId);
 
@@ -121,6 +132,9 @@ export class SentinelService extends EventEmitter {
         stats.totalFailures++;
         stats.lastFailure = new Date();
         stats.lastError = error;
+        if (kind) {
+            stats.failuresByKind[kind] = (stats.failuresByKind[kind] ?? 0) + 1;
+        }
 
         const metrics = breaker.getMetrics();
 
@@ -135,6 +149,49 @@ export class SentinelService extends EventEmitter {
         }
     }
 
+    /**
+     * Mark a source as blocked (reason) or clear the block (null)
+     *
+     * Blocked sources are skipped on purpose, so this does not touch the
+     * circuit breaker.
+     */
+    public setBlocked(sourceId: string, reason: string | null): void {
+        if (!this.circuitBreakers.has(sourceId)) return;
+
+        const previous = this.blockedReasons.get(sourceId);
+        if (reason) {
+            this.blockedReasons.set(sourceId, reason);
+            if (previous !== reason) {
+                logger.warn(`Source ${sourceId} blocked: ${reason}`);
+                this.emit('source:blocked', { sourceId, reason });
+            }
+        } else if (previous) {
+            this.blockedReasons.delete(sourceId);
+            logger.info(`Source ${sourceId} unblocked`);
+            this.emit('source:unblocked', { sourceId });
+        }
+    }
+
+    /**
+     * Record the content type detected for a source's latest successful fetch
+     *
+     * Call only once the fetch has parsed; failed fetches leave the last
+     * detection in place. A type that differs from the previous one (a feed
+     * turned into an HTML page, an API switching formats) emits
+     * 'source:type-changed'.
+     */
+    public recordDetection(sourceId: string, type: string, confidence: number): void {
+        if (!this.circuitBreakers.has(sourceId)) return;
+
+        const previous = this.detections.get(sourceId);
+        this.detections.set(sourceId, { type, confidence });
+
+        if (previous && previous.type !== type) {
+            logger.warn(`Source ${sourceId} changed content type: ${previous.type} -> ${type} (confidence ${confidence.toFixed(2)})`);
+            this.emit('source:type-changed', { sourceId, previous: previous.type, current: type, confidence });
+        }
+    }
+
     /**
      * Get health status for a specific source
      */
@@ -154,10 +211,13 @@ export class SentinelService extends EventEmitter {
             ? ((stats.totalRequests - stats.totalFailures) / stats.totalRequests) * 100
             : 100;
 
+        const blockedReason = this.blockedReasons.get(sourceId) ?? null;
+        const detection = this.detections.get(sourceId);
+
         return {
             sourceId,
             sourceName: config.name,
-            status: this.circuitStateToHealthStatus(metrics.state),
+            status: blockedReason ? HealthStatus.BLOCKED : this.circuitStateToHealthStatus(metrics.state),
             circuitState: metrics.state,
             consecutiveFailures: metrics.failureCount,
             consecutiveSuccesses: metrics.successCount,
@@ -168,6 +228,10 @@ export class SentinelService extends EventEmitter {
             totalFailures: stats.totalFailures,
             uptime,
             responseTimeMs: avgResponseTime,
+            blockedReason,
+            detectedType: detection?.type ?? null,
+            detectionConfidence: detection?.confidence ?? null,
+            failuresByKind: { ...stats.failuresByKind },
         };
     }
 
@@ -193,6 +257,7 @@ export class SentinelService extends EventEmitter {
         healthySources: number;
         degradedSources: number;
         unhealthySources: number;
+        blockedSources: number;
         overallStatus: HealthStatus;
         sources: Array<{
             id: string;
@@ -206,10 +271,11 @@ export class SentinelService extends EventEmitter {
         const healthy = allHealth.filter(h => h.status === HealthStatus.HEALTHY);
         const degraded = allHealth.filter(h => h.status === HealthStatus.DEGRADED);
         const unhealthy = allHealth.filter(h => h.status === HealthStatus.UNHEALTHY);
+        const blocked = allHealth.filter(h => h.status === HealthStatus.BLOCKED);
 
         let overallStatus = HealthStatus.HEALTHY;
         if (unhealthy.length > 0) {
-            overallStatus = unhealthy.length === allHealth.length
+            overallStatus = unhealthy.length === allHealth.length - blocked.length
                 ? HealthStatus.UNHEALTHY
                 : HealthStatus.DEGRADED;
         } else if (degraded.length > 0) {
@@ -221,6 +287,7 @@ export class SentinelService extends EventEmitter {
             healthySources: healthy.length,
             degradedSources: degraded.length,
             unhealthySources: unhealthy.length,
+            blockedSources: blocked.length,
             overallStatus,
             sources: allHealth.map(h => ({
                 id: h.sourceId,
@@ -268,6 +335,8 @@ export class SentinelService extends EventEmitter {
                 return `Experiencing issues (${health.consecutiveFailures} recent failures)`;
             case HealthStatus.UNHEALTHY:
                 return `Currently unavailable: ${health.lastError || 'Unknown error'}`;
+            case HealthStatus.BLOCKED:
+                return `Blocked: ${health.blockedReason}`;
         }
     }
 }
@@ -17,6 +17,8 @@ export enum HealthStatus {
     HEALTHY = 'healthy',
     DEGRADED = 'degraded',
     UNHEALTHY = 'unhealthy',
+    /** Deliberately not fetched (e.g. disallowed by robots.txt) */
+    BLOCKED = 'blocked',
 }
 
 /**
@@ -36,6 +38,14 @@ export interface SourceHealth {
     totalFailures: number;
     uptime: number; // Percentage 0-100
     responseTimeMs: number | null;
+    /** Why the source is not being fetched, if blocked */
+    blockedReason: string | null;
+    /** Content type detected on the last successful fetch */
+    detectedType: string | null;
+    /** Detection confidence for detectedType, 0-1 */
+    detectionConfidence: number | null;
+    /** Failures counted per category (e.g. parse-limit) */
+    failuresByKind: Record<string, number>;
 }
 
 /**
@@ -60,4 +70,7 @@ export interface SentinelEvents {
     'circuit:opened': { sourceId: string; reason: string };
     'circuit:closed': { sourceId: string };
     'circuit:half-open': { sourceId: string };
+    'source:blocked': { sourceId: string; reason: string };
+    'source:unblocked': { sourceId: string };
+    'source:type-changed': { sourceId: string; previous: string; current: string; confidence: number };
 }
@@ -0,0 +1,112 @@
+import { NewsItem } from '../parser/types.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('ItemStore');
+
+/**
+ * Per-source snapshot kept by the store
+ */
+export interface SourceSnapshot {
+    items: NewsItem[];
+    updatedAt: Date;
+}
+
+/**
+ * Item Store: In-memory cache of parsed news items
+ *
+ * Features:
+ * - One bucket per source, newest items first
+ * - Merges new polls with previously seen items (by ID)
+ * - Caps each bucket at maxItemsPerSource
+ */
+export class ItemStore {
+    private snapshots: Map<string, SourceSnapshot> = new Map();
+
+    constructor(private maxItemsPerSource: number) { }
+
+    /**
+     * Update the per-source cap (applies on next write)
+     */
+    public setMaxItemsPerSource(max: number): void {
+        this.maxItemsPerSource = max;
+    }
+
+    /**
+     * Merge freshly parsed items into a source's bucket
+     */
+    public upsert(sourceId: string, items: NewsItem[]): void {
+        const existing = this.snapshots.get(sourceId)?.items ?? [];
+        const merged = new Map<string, NewsItem>();
+
+        // Fresh items win over stored copies with the same ID
+        for (const item of items) {
+            if (!merged.has(item.id)) merged.set(item.id, item);
+        }
+        for (const item of existing) {
+            if (!merged.has(item.id)) merged.set(item.id, item);
+        }
+
+        const sorted = ItemStore.sortByDate([...merged.values()]);
+
+        this.snapshots.set(sourceId, {
+            items: sorted.slice(0, this.maxItemsPerSource),
+            updatedAt: new Date(),
+        });
+
+        logger.debug(`Stored ${Math.min(sorted.length, this.maxItemsPerSource)} items for ${sourceId}`);
+    }
+
+    /**
+     * Get stored items for a source
+     */
+    public getItems(sourceId: string): NewsItem[] {
+        return this.snapshots.get(sourceId)?.items ?? [];
+    }
+
+    /**
+     * Get the full snapshot for a source
+     */
+    public getSnapshot(sourceId: string): SourceSnapshot | null {
+        return this.snapshots.get(sourceId) ?? null;
+    }
+
+    /**
+     * Get items across sources, newest first
+     */
+    public getAllItems(sourceIds?: string[]): NewsItem[] {
+        const ids = sourceIds ?? [...this.snapshots.keys()];
+        return ItemStore.sortByDate(ids.flatMap(id => this.getItems(id)));
+    }
+
+    /**
+     * IDs of all stored sources
+     */
+    public getSourceIds(): string[] {
+        return [...this.snapshots.keys()];
+    }
+
+    /**
+     * Check whether a source has been stored at least once
+     */
+    public has(sourceId: string): boolean {
+        return this.snapshots.has(sourceId);
+    }
+
+    /**
+     * Drop a source's bucket
+     */
+    public remove(sourceId: string): void {
+        this.snapshots.delete(sourceId);
+    }
+
+    /**
+     * Sort items by date (newest first)
+     */
+    public static sortByDate(items: NewsItem[]): NewsItem[] {
+        return items.sort((a, b) => {
+            const dateA = a.publishedAt ? new Date(a.publishedAt).getTime() : 0;
+            const dateB = b.publishedAt ? new Date(b.publishedAt).getTime() : 0;
+            return dateB - dateA;
+        });
+    }
+}
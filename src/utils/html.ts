@@ -0,0 +1,247 @@
+import { parse as parseHTML, HTMLElement, Node, NodeType } from 'node-html-parser';
+
+/**
+ * HTML sanitization and plain text / Markdown rendering
+ *
+ * Block elements become paragraphs, lists become "- " lines and links are
+ * resolved against an optional base URL. Markdown output keeps headings,
+ * emphasis, links, images, quotes and code blocks.
+ */
+
+/**
+ * Parser options: keep <pre> parsed as markup (the library default treats
+ * it as raw text, which would let tags inside it skip sanitization)
+ */
+export const HTML_PARSE_OPTIONS = {
+    comment: false,
+    blockTextElements: { script: true, noscript: true, style: true },
+};
+
+/** Elements dropped together with their content */
+const DROP_TAGS = new Set([
+    'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed',
+    'applet', 'form', 'input', 'button', 'select', 'textarea', 'svg', 'math', 'link', 'meta',
+    'base', 'head', 'title', 'audio', 'video', 'canvas',
+]);
+
+/** Allowed elements and their allowed attributes; anything else is unwrapped */
+const ALLOWED_TAGS: Record<string, string[]> = {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    p: [], br: [], hr: [], div: [], span: [],
+    h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+    strong: [], b: [], em: [], i: [], u: [], s: [], sub: [], sup: [], small: [], mark: [],
+    ul: [], ol: [], li: [], dl: [], dt: [], dd: [],
+    blockquote: ['cite'], q: [], cite: [], pre: [], code: [],
+    figure: [], figcaption: [],
+    table: [], thead: [], tbody: [], tfoot: [], tr: [], th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+/** URL attributes and the schemes they may use */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+const SAFE_SCHEMES = /^(https?:|mailto:)/i;
+
+/** Image URLs that are almost always tracking beacons */
+const TRACKING_PIXEL = /feedburner\.com\/~r\/|\/pixel(\.gif|\.png)?(\?|$)|\/beacon|\/track(ing)?\/|\/open\.gif|doubleclick\.net|\/stats\/|\/wf\/open/i;
+
+type OutputFormat = 'text' | 'markdown';
+
+interface RenderContext {
+    format: OutputFormat;
+    baseUrl?: string;
+}
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'figure',
+    'figcaption', 'table', 'tr', 'dl', 'dt', 'dd', 'address', 'hr',
+]);
+
+/**
+ * Render HTML as plain text
+ */
+export function htmlToText(html: string | HTMLElement, baseUrl?: string): string {
+    return render(html, { format: 'text', baseUrl });
+}
+
+/**
+ * Render HTML as Markdown
+ */
+export function htmlToMarkdown(html: string | HTMLElement, baseUrl?: string): string {
+    return render(html, { format: 'markdown', baseUrl });
+}
+
+/**
+ * Reduce HTML to an allowlisted subset
+ *
+ * Drops scripts, embeds, forms, event handlers, inline styles and tracking
+ * pixels; keeps text structure, links and images with safe URLs.
+ */
+export function sanitizeHtml(html: string, baseUrl?: string): string {
+    const root = parseHTML(html, HTML_PARSE_OPTIONS);
+    return sanitizeNode(root, baseUrl).trim();
+}
+
+function sanitizeNode(node: Node, baseUrl?: string): string {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+        // Entities stay as they are; stray brackets must not form new tags
+        return node.rawText.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+    if (!(node instanceof HTMLElement)) return '';
+
+    const tag = node.tagName?.toLowerCase() ?? '';
+    if (DROP_TAGS.has(tag)) return '';
+
+    const children = node.childNodes.map(child => sanitizeNode(child, baseUrl)).join('');
+    const allowed = ALLOWED_TAGS[tag];
+    if (!allowed) return children;
+
+    const attributes: string[] = [];
+    for (const name of allowed) {
+        let value = node.getAttribute(name)?.trim();
+        if (!value) continue;
+
+        if (URL_ATTRIBUTES.has(name)) {
+            value = resolveUrl(value, baseUrl);
+            if (!value || !SAFE_SCHEMES.test(value)) continue;
+        }
+        attributes.push(` ${name}="${escapeAttribute(value)}"`);
+    }
+
+    if (tag === 'img') {
+        const src = attributes.find(a => a.startsWith(' src='));
+        const tiny = ['width', 'height'].some(dim => {
+            const size = node.getAttribute(dim);
+            return size !== undefined && Number.parseInt(size, 10) <= 1;
+        });
+        if (!src || tiny || TRACKING_PIXEL.test(node.getAttribute('src') ?? '')) return '';
+    }
+    if (tag === 'a' && !attributes.some(a => a.startsWith(' href='))) {
+        return children;
+    }
+
+    return VOID_TAGS.has(tag)
+        ? `<${tag}${attributes.join('')}>`
+        : `<${tag}${attributes.join('')}>${children}</${tag}>`;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function render(html: string | HTMLElement, ctx: RenderContext): string {
+    const root = typeof html === 'string' ? parseHTML(html, HTML_PARSE_OPTIONS) : html;
+    return normalize(renderNode(root, ctx));
+}
+
+function renderNode(node: Node, ctx: RenderContext): string {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+        return node.text.replace(/\s+/g, ' ');
+    }
+    if (!(node instanceof HTMLElement)) return '';
+
+    const tag = node.tagName?.toLowerCase() ?? '';
+    const md = ctx.format === 'markdown';
+    const inner = () => renderChildren(node, ctx);
+
+    switch (tag) {
+        case 'script':
+        case 'style':
+        case 'noscript':
+        case 'template':
+            return '';
+        case 'br':
+            return '\n';
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+            const text = inner().trim();
+            if (!text) return '';
+            return md ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : `\n\n${text}\n\n`;
+        }
+        case 'ul':
+        case 'ol': {
+            const items = node.childNodes
+                .filter((c): c is HTMLElement => c instanceof HTMLElement && c.tagName?.toLowerCase() === 'li')
+                .map((li, i) => {
+                    const marker = md && tag === 'ol' ? `${i + 1}.` : '-';
+                    return `${marker} ${renderChildren(li, ctx).trim().replace(/\n+/g, ' ')}`;
+                });
+            return items.length > 0 ? `\n\n${items.join('\n')}\n\n` : '';
+        }
+        case 'blockquote': {
+            const text = normalize(inner());
+            if (!text) return '';
+            return md ? `\n\n${text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n` : `\n\n${text}\n\n`;
+        }
+        case 'pre': {
+            const code = node.text.replace(/^\n+|\s+$/g, '');
+            return md ? `\n\n\`\`\`\n${code}\n\`\`\`\n\n` : `\n\n${code}\n\n`;
+        }
+        case 'code':
+            return md ? `\`${node.text}\`` : node.text;
+        case 'strong':
+        case 'b':
+            return md ? wrap(inner(), '**') : inner();
+        case 'em':
+        case 'i':
+            return md ? wrap(inner(), '_') : inner();
+        case 'a': {
+            const text = inner();
+            const href = resolveUrl(node.getAttribute('href'), ctx.baseUrl);
+            if (!md || !href || !text.trim() || !SAFE_SCHEMES.test(href)) return text;
+            return `[${text.trim()}](${href})`;
+        }
+        case 'img': {
+            const src = resolveUrl(node.getAttribute('src'), ctx.baseUrl);
+            return md && src && SAFE_SCHEMES.test(src) ? `![${node.getAttribute('alt') ?? ''}](${src})` : '';
+        }
+        case 'td':
+        case 'th':
+            return ` ${inner().trim()} `;
+        default:
+            return BLOCK_TAGS.has(tag) ? `\n\n${inner().trim()}\n\n` : inner();
+    }
+}
+
+function renderChildren(node: HTMLElement, ctx: RenderContext): string {
+    return node.childNodes.map(child => renderNode(child, ctx)).join('');
+}
+
+/**
+ * Wrap inline text in Markdown markers, keeping surrounding whitespace outside
+ */
+function wrap(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return text;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+/**
+ * Trim lines and collapse blank runs (code fences are left untouched)
+ */
+function normalize(text: string): string {
+    const lines: string[] = [];
+    let inFence = false;
+
+    for (const line of text.split('\n')) {
+        if (line.trim().startsWith('```')) inFence = !inFence;
+        lines.push(inFence ? line : line.replace(/[ \t]+/g, ' ').trim());
+    }
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function resolveUrl(url: string | undefined, baseUrl?: string): string | undefined {
+    if (!url) return undefined;
+    if (!baseUrl) return url;
+    try {
+        return new URL(url, baseUrl).href;
+    } catch {
+        return url;
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Minimal JSONPath / dotted-path evaluation
+ *
+ * Supported syntax (leading `$` optional):
+ * - `a.b.c`, `items.0.id`, `items[0].id`
+ * - `['key.with.dots']`, `["key"]`
+ * - `[*]` and `.*` wildcards (expand arrays and object values)
+ */
+
+type Segment = string | number | '*';
+
+/**
+ * Evaluate a path and return every matching value
+ */
+export function queryPath(obj: unknown, path: string): unknown[] {
+    let current: unknown[] = [obj];
+
+    for (const segment of tokenize(path)) {
+        const next: unknown[] = [];
+        for (const value of current) {
+            if (value === null || typeof value !== 'object') continue;
+
+            if (segment === '*') {
+                next.push(...(Array.isArray(value) ? value : Object.values(value)));
+            } else {
+                const child = (value as Record<string | number, unknown>)[segment];
+                if (child !== undefined) next.push(child);
+            }
+        }
+        current = next;
+    }
+
+    return current;
+}
+
+/**
+ * Evaluate a path and return the first match
+ */
+export function getByPath(obj: unknown, path: string): unknown {
+    return queryPath(obj, path)[0];
+}
+
+/**
+ * Split a path into segments
+ */
+function tokenize(path: string): Segment[] {
+    const segments: Segment[] = [];
+    const re = /\[\s*(?:'([^']*)'|"([^"]*)"|(\d+)|(\*))\s*\]|\.?([^.[\]]+)/g;
+    const trimmed = path.trim().replace(/^\$/, '');
+
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(trimmed)) !== null) {
+        const [, single, double, index, star, plain] = match;
+        if (single !== undefined) segments.push(single);
+        else if (double !== undefined) segments.push(double);
+        else if (index !== undefined) segments.push(Number(index));
+        else if (star !== undefined) segments.push('*');
+        else if (plain === '*') segments.push('*');
+        else if (plain !== undefined) segments.push(plain);
+    }
+
+    return segments;
+}